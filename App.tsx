@@ -1,333 +1,841 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
-import { ConnectionState, TranscriptionEntry } from './types';
-import { SYSTEM_INSTRUCTION, MODEL_NAME } from './constants';
-
-// --- Utility Functions for Audio ---
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
+import React, { useState, useEffect, useRef, useCallback, useReducer } from 'react';
+import { LiveServerMessage, FunctionResponse } from '@google/genai';
+import {
+  Citation,
+  ConnectionState,
+  CourseConfig,
+  CourseDocument,
+  InputMode,
+  MessageSource,
+  QuizAnswer,
+  SessionMode,
+  SessionErrorKind,
+  SessionPlan,
+  SessionRecording,
+  TranscriptionEntry,
+  TutorSession,
+  UserSettings,
+  VideoSource,
+} from './types';
+import {
+  MODEL_NAME,
+  TEXT_MODEL_NAME,
+  DEFAULT_COURSE_ID,
+  MAX_RECONNECT_ATTEMPTS,
+  QUIZ_QUICK_QUESTIONS,
+  PLANNER_QUICK_QUESTIONS,
+  buildQuizInstruction,
+  buildPlannerInstruction,
+  buildLanguageInstruction,
+  CITATION_INSTRUCTION,
+  SCREEN_SHARE_INSTRUCTION,
+} from './constants';
+import {
+  BUILT_IN_COURSES,
+  createCourseFromDocument,
+  loadCustomCourses,
+  saveCustomCourses,
+  getCourseIdFromUrl,
+  setCourseIdInUrl,
+} from './services/courseLibrary';
+import { saveSession, deleteSession, listSessions } from './services/sessionStore';
+import { LiveSessionSettings, buildLiveParams } from './services/liveParams';
+import { SessionRecorder, createSessionRecorder } from './services/audioRecording';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from './services/audioCapture';
+import { saveRecording, getRecording, deleteRecording } from './services/recordingStore';
+import { buildExportFileName } from './services/transcriptExport';
+import { createLiveClient } from './services/liveAuth';
+import { LiveConnection, LiveSession, ReconnectStatus, createLiveConnection } from './services/liveConnection';
+import { createTranscriptAssembler } from './services/liveTranscript';
+import { decode, decodeAudioData, createBlob } from './services/audioCodec';
+import { OUTPUT_SAMPLE_RATE, PlaybackScheduler, createPlaybackScheduler } from './services/audioPlayback';
+import { buildQuizFunctionDeclarations, handleQuizToolCall, isQuizFunction } from './services/quiz';
+import { buildCitationFunctionDeclaration, handleCitationToolCall, isCitationFunction } from './services/citations';
+import {
+  EMPTY_SESSION_PLAN,
+  buildPlanFunctionDeclarations,
+  handlePlanToolCall,
+  hasPlanContent,
+  isPlanFunction,
+} from './services/sessionPlan';
+import { INITIAL_SPEAKING_STATE, INTERRUPTED_DISPLAY_MS, speakingStateReducer } from './services/speakingState';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './services/settings';
+import { applyOutputDevice, buildMicConstraints } from './services/audioDevices';
+import { VideoCapture, startVideoCapture } from './services/videoCapture';
+import { classifySessionError } from './services/sessionErrors';
+import { ShortcutAction, matchShortcut, shortcutKeys } from './services/shortcuts';
+import CourseHighlights from './components/CourseHighlights';
+import CoursePicker from './components/CoursePicker';
+import DocumentLoader from './components/DocumentLoader';
+import SessionHistory from './components/SessionHistory';
+import ExportMenu from './components/ExportMenu';
+import SessionPlayer from './components/SessionPlayer';
+import QuizScoreboard from './components/QuizScoreboard';
+import ChatInput from './components/ChatInput';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import AudioVisualizer from './components/AudioVisualizer';
+import SettingsPanel from './components/SettingsPanel';
+import CitationChips from './components/CitationChips';
+import DocumentViewer from './components/DocumentViewer';
+import SessionPlanEditor from './components/SessionPlanEditor';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import VideoPreview from './components/VideoPreview';
+import SessionErrorNotice from './components/SessionErrorNotice';
+import CaptionsOverlay from './components/CaptionsOverlay';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import { useI18n } from './i18n';
 
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
+// Mobile browsers have a camera but no screen capture
+const canShareScreen = Boolean(navigator.mediaDevices?.getDisplayMedia);
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+// Keyboard handling that should not get in the way of typing in a field
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
-function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+function createSessionRecord(course: CourseConfig): TutorSession {
+  const now = new Date();
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    id: crypto.randomUUID(),
+    courseId: course.id,
+    courseTitle: course.highlights.title,
+    startedAt: now,
+    endedAt: now,
+    entries: [],
   };
 }
-// --- End Utilities ---
-
-const QUICK_QUESTIONS = [
-  { text: "What are the main objectives?", icon: "🎯" },
-  { text: "Tell me about the 5 modules.", icon: "📚" },
-  { text: "How am I evaluated?", icon: "📊" },
-  { text: "What is Agentic AI?", icon: "🤖" },
-];
 
 export default function App() {
+  const { locale, t } = useI18n();
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  // Text of the turn in progress, rendered before turnComplete arrives
+  const [liveTurn, setLiveTurn] = useState({ user: '', model: '' });
   const [isListening, setIsListening] = useState(false);
+  const [customCourses, setCustomCourses] = useState<CourseConfig[]>(loadCustomCourses);
+  const [selectedCourseId, setSelectedCourseId] = useState(() => getCourseIdFromUrl() ?? DEFAULT_COURSE_ID);
+
+  const [activeSession, setActiveSession] = useState<TutorSession | null>(null);
+  const [pastSessions, setPastSessions] = useState<TutorSession[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  const [isRecordingEnabled, setIsRecordingEnabled] = useState(false);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+
+  const [inputMode, setInputMode] = useState<InputMode>('voice-activity');
+  const [isTalking, setIsTalking] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [speakingState, dispatchSpeaking] = useReducer(speakingStateReducer, INITIAL_SPEAKING_STATE);
+  const [analysers, setAnalysers] = useState<{ input: AnalyserNode; output: AnalyserNode } | null>(null);
+  const [videoCapture, setVideoCapture] = useState<VideoCapture | null>(null);
+
+  const [sessionMode, setSessionMode] = useState<SessionMode>('tutor');
+  const [quizAnswers, setQuizAnswers] = useState<QuizAnswer[]>([]);
+  const [quizSummary, setQuizSummary] = useState<string | null>(null);
+  const [sessionPlan, setSessionPlan] = useState<SessionPlan>(EMPTY_SESSION_PLAN);
+
+  // Citation whose passage is open in the document viewer
+  const [citationTarget, setCitationTarget] = useState<Citation | null>(null);
+
+  const [settings, setSettings] = useState<UserSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [sessionError, setSessionError] = useState<SessionErrorKind | null>(null);
+
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [reconnectAt, setReconnectAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const courses = [...BUILT_IN_COURSES, ...customCourses];
+  const course = courses.find(c => c.id === selectedCourseId) ?? BUILT_IN_COURSES[0];
   
   // Refs for audio handling to avoid re-renders
   const audioContextInRef = useRef<AudioContext | null>(null);
   const audioContextOutRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef(0);
-  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
+  // All model audio passes through this on its way to the speakers
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const playbackRef = useRef<PlaybackScheduler | null>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
+  const liveConnectionRef = useRef<LiveConnection | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
-  const currentOutputTranscriptionRef = useRef('');
-  const currentInputTranscriptionRef = useRef('');
+  const captureRef = useRef<AudioCapture | null>(null);
+  const videoCaptureRef = useRef<VideoCapture | null>(null);
+  // Push-to-talk key/button held, or (voice activity mode) audio currently being streamed
+  const talkingRef = useRef(false);
+  const streamingRef = useRef(false);
+  const mutedRef = useRef(false);
+  // Transcription and citations of the turn in progress
+  const turnRef = useRef(createTranscriptAssembler());
+
+  // Connection state that survives reconnects
+  const liveSettingsRef = useRef<LiveSessionSettings | null>(null);
+  const transcriptionsRef = useRef(transcriptions);
+  transcriptionsRef.current = transcriptions;
+  // Planner function calls build on the plan as the trainee last edited it
+  const sessionPlanRef = useRef(sessionPlan);
+  sessionPlanRef.current = sessionPlan;
+
+  // Recording timeline state; offsets are seconds on the recorder's timeline
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const entryRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const transcriptContainerRef = useRef<HTMLDivElement>(null);
+
+  // Index of the last transcript entry reached by the replayed recording
+  let playbackIndex = -1;
+  if (playbackTime !== null) {
+    transcriptions.forEach((entry, i) => {
+      if (entry.audioOffset !== undefined && entry.audioOffset <= playbackTime) playbackIndex = i;
+    });
+  }
+
+  useEffect(() => {
+    setCourseIdInUrl(course.id);
+    setCitationTarget(null);
+  }, [course.id]);
+
+  useEffect(() => {
+    saveCustomCourses(customCourses);
+  }, [customCourses]);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setPastSessions)
+      .catch(err => console.error('Failed to load saved sessions:', err));
+  }, []);
+
+  // Persist the active session whenever its transcript grows or its plan is edited
+  useEffect(() => {
+    if (!activeSession || transcriptions.length === 0) return;
+    if (transcriptions === activeSession.entries && sessionPlan === (activeSession.plan ?? EMPTY_SESSION_PLAN)) return;
+    const session: TutorSession = {
+      ...activeSession,
+      entries: transcriptions,
+      endedAt: new Date(),
+      ...((quizAnswers.length > 0 || quizSummary) && { quiz: { answers: quizAnswers, summary: quizSummary } }),
+      ...(hasPlanContent(sessionPlan) && { plan: sessionPlan }),
+    };
+    saveSession(session)
+      .then(() => setPastSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]
+        .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())))
+      .catch(err => console.error('Failed to save session:', err));
+  }, [transcriptions, activeSession, quizAnswers, quizSummary, sessionPlan]);
+
+  useEffect(() => {
+    if (playbackIndex !== -1) {
+      entryRefs.current[playbackIndex]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [playbackIndex]);
+
+  // Follow the conversation as it grows, unless a recording is being replayed
+  useEffect(() => {
+    const container = transcriptContainerRef.current;
+    if (container && playbackTime === null) container.scrollTop = container.scrollHeight;
+  }, [transcriptions, liveTurn, playbackTime]);
+
+  const addCourseFromDocument = (document: CourseDocument) => {
+    const newCourse = createCourseFromDocument(document, courses.map(c => c.id));
+    setCustomCourses(prev => [...prev, newCourse]);
+    setSelectedCourseId(newCourse.id);
+  };
+
+  const removeCourse = (courseId: string) => {
+    setCustomCourses(prev => prev.filter(c => c.id !== courseId));
+    setSelectedCourseId(DEFAULT_COURSE_ID);
+  };
+
+  const finishRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    // Model audio scheduled past this point never played
+    recorder.truncateOutput(recorder.now());
+    const result = recorder.finish();
+    setRecording(result);
+    try {
+      await saveRecording(result);
+    } catch (err) {
+      console.error('Failed to save recording:', err);
+    }
+  }, []);
 
   const stopConversation = useCallback(() => {
-    if (sessionRef.current) {
-      sessionRef.current.close();
-      sessionRef.current = null;
+    liveConnectionRef.current?.stop();
+    liveConnectionRef.current = null;
+    sessionRef.current = null;
+    setReconnectAt(null);
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
+    videoCaptureRef.current?.stop();
+    videoCaptureRef.current = null;
+    setVideoCapture(null);
+    talkingRef.current = false;
+    streamingRef.current = false;
+    setIsTalking(false);
     if (micStreamRef.current) {
       micStreamRef.current.getTracks().forEach(track => track.stop());
       micStreamRef.current = null;
     }
-    activeSourcesRef.current.forEach(source => source.stop());
-    activeSourcesRef.current.clear();
+    playbackRef.current?.interrupt();
+    finishRecording();
+    setAnalysers(null);
+    dispatchSpeaking({ type: 'reset' });
     setConnectionState(ConnectionState.DISCONNECTED);
     setIsListening(false);
+  }, [finishRecording]);
+
+  // Drives the reconnect countdown
+  useEffect(() => {
+    if (connectionState !== ConnectionState.RECONNECTING) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [connectionState]);
+
+  // Show an interruption briefly before going back to listening
+  useEffect(() => {
+    if (speakingState !== 'interrupted') return;
+    const timer = window.setTimeout(() => dispatchSpeaking({ type: 'settle' }), INTERRUPTED_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [speakingState]);
+
+  const startTalking = useCallback(() => {
+    if (talkingRef.current || mutedRef.current || !sessionRef.current) return;
+    talkingRef.current = true;
+    setIsTalking(true);
+    sessionRef.current.sendRealtimeInput({ activityStart: {} });
+  }, []);
+
+  const stopTalking = useCallback(() => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    setIsTalking(false);
+    sessionRef.current?.sendRealtimeInput({ activityEnd: {} });
   }, []);
 
-  const sendTextMessage = (text: string) => {
+  // Hold Space to talk, unless the user is typing somewhere
+  useEffect(() => {
+    if (inputMode !== 'push-to-talk' || connectionState !== ConnectionState.CONNECTED) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [inputMode, connectionState, startTalking, stopTalking]);
+
+  // Disabling the track feeds silence through the same pipeline, so the session stays up
+  const toggleMute = () => {
+    const muted = !mutedRef.current;
+    mutedRef.current = muted;
+    setIsMuted(muted);
+    micStreamRef.current?.getAudioTracks().forEach(track => {
+      track.enabled = !muted;
+    });
+    if (muted) stopTalking();
+  };
+
+  const stopVideo = () => {
+    videoCaptureRef.current?.stop();
+    videoCaptureRef.current = null;
+    setVideoCapture(null);
+  };
+
+  // Switches between screen, camera and nothing. Frames are dropped while reconnecting and
+  // the capture itself carries on until the session is stopped.
+  const toggleVideo = async (source: VideoSource) => {
+    const current = videoCaptureRef.current?.source;
+    stopVideo();
+    if (current === source) return;
+    try {
+      const capture = await startVideoCapture(
+        source,
+        frame => sessionRef.current?.sendRealtimeInput({ video: frame }),
+        () => {
+          if (videoCaptureRef.current !== capture) return;
+          videoCaptureRef.current = null;
+          setVideoCapture(null);
+        },
+      );
+      // The session may have been stopped while the browser's picker was open
+      if (!liveConnectionRef.current) {
+        capture.stop();
+        return;
+      }
+      videoCaptureRef.current = capture;
+      setVideoCapture(capture);
+    } catch (err) {
+      // Dismissing the picker lands here too
+      console.error(`Failed to start ${source} capture:`, err);
+    }
+  };
+
+  const sendTextMessage = (text: string, source: MessageSource) => {
     if (sessionRef.current && connectionState === ConnectionState.CONNECTED) {
-      // Send text to the live session
-      sessionRef.current.send({ parts: [{ text }] });
+      // Send text to the live session as a complete user turn
+      sessionRef.current.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text }] }],
+        turnComplete: true,
+      });
       
       // Manually add to transcript for instant feedback
       setTranscriptions(prev => [
         ...prev,
-        { role: 'user', text, timestamp: new Date() }
+        { role: 'user', text, timestamp: new Date(), audioOffset: recorderRef.current?.now(), source }
       ]);
     }
   };
 
-  const startConversation = async () => {
+  // Adds whatever was transcribed of the current turn to the history
+  const commitTurn = (entries = turnRef.current.commit()) => {
+    if (entries.length > 0) setTranscriptions(prev => [...prev, ...entries]);
+    setLiveTurn({ user: '', model: '' });
+  };
+
+  const retryNow = () => liveConnectionRef.current?.retryNow();
+
+  const handleConnectionState = (state: ConnectionState, reconnect: ReconnectStatus | null) => {
+    if (state === ConnectionState.ERROR) {
+      stopConversation();
+      setConnectionState(ConnectionState.ERROR);
+      setSessionError('connection-lost');
+      return;
+    }
+    setConnectionState(state);
+    setReconnectAt(reconnect?.at ?? null);
+    if (reconnect) setReconnectAttempt(reconnect.attempt);
+    if (state === ConnectionState.CONNECTED) setIsListening(true);
+  };
+
+  // The turn in progress is kept and whoever was talking has to start again
+  const handleConnectionDrop = () => {
+    commitTurn();
+    talkingRef.current = false;
+    streamingRef.current = false;
+    setIsTalking(false);
+  };
+
+  const handleServerMessage = async (message: LiveServerMessage) => {
+    const live = liveSettingsRef.current!;
+
+    // Handle function calls from the model
+    if (message.toolCall?.functionCalls) {
+      const functionResponses = message.toolCall.functionCalls.map((call): FunctionResponse => {
+        if (isQuizFunction(call.name)) {
+          const { response, answer, summary } = handleQuizToolCall(call);
+          if (answer) setQuizAnswers(prev => [...prev, answer]);
+          if (summary !== undefined) setQuizSummary(summary);
+          return response;
+        }
+        if (isPlanFunction(call.name)) {
+          const { response, plan } = handlePlanToolCall(call, sessionPlanRef.current);
+          sessionPlanRef.current = plan;
+          setSessionPlan(plan);
+          return response;
+        }
+        if (isCitationFunction(call.name)) {
+          const { response, citations } = handleCitationToolCall(call, live.sections);
+          turnRef.current.addCitations(citations);
+          return response;
+        }
+        return { id: call.id, name: call.name, response: { error: `Unknown function ${call.name}` } };
+      });
+      sessionRef.current?.sendToolResponse({ functionResponses });
+    }
+
+    // Handle Audio Data
+    const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+    if (base64Audio) {
+      const outCtx = audioContextOutRef.current!;
+      const audioBuffer = await decodeAudioData(decode(base64Audio), outCtx, OUTPUT_SAMPLE_RATE, 1);
+      const startAt = playbackRef.current!.play(audioBuffer, live);
+
+      const recorder = recorderRef.current;
+      if (recorder) {
+        const playAt = recorder.now() + (startAt - outCtx.currentTime);
+        // Recorded as heard: a faster playback rate means the same samples span less time
+        recorder.addOutput(audioBuffer.getChannelData(0), audioBuffer.sampleRate * live.playbackRate, playAt);
+        turnRef.current.markModelAudio(playAt);
+      }
+      dispatchSpeaking({ type: 'model-audio-start' });
+    }
+
+    // Handle Transcriptions
+    const { changed, committed } = turnRef.current.ingest(message.serverContent, recorderRef.current?.now());
+    if (committed) {
+      commitTurn(committed);
+    } else if (changed) {
+      setLiveTurn(turnRef.current.live());
+    }
+
+    // Handle Interrupts
+    if (message.serverContent?.interrupted) {
+      playbackRef.current?.interrupt();
+      recorderRef.current?.truncateOutput(recorderRef.current.now());
+      dispatchSpeaking({ type: 'interrupted' });
+    }
+  };
+
+  // `mode` overrides the selected input mode, e.g. to carry on in text after a microphone error
+  const startConversation = async (mode: InputMode = inputMode) => {
     try {
       setConnectionState(ConnectionState.CONNECTING);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+      setSessionError(null);
+      setInputMode(mode);
 
       // Initialize audio contexts
       if (!audioContextInRef.current) audioContextInRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      if (!audioContextOutRef.current) audioContextOutRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (!audioContextOutRef.current) {
+        audioContextOutRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+        outputAnalyserRef.current = audioContextOutRef.current.createAnalyser();
+        outputAnalyserRef.current.connect(audioContextOutRef.current.destination);
+        playbackRef.current = createPlaybackScheduler(audioContextOutRef.current, outputAnalyserRef.current, () =>
+          dispatchSpeaking({ type: 'model-audio-end' }));
+      }
+      await applyOutputDevice(audioContextOutRef.current, settings.outputDeviceId);
+      mutedRef.current = false;
+      setIsMuted(false);
+      dispatchSpeaking({ type: 'reset' });
+
+      // Asked first, so a blocked microphone is reported before anything else is set up
+      const stream = mode === 'text' ? null : await navigator.mediaDevices.getUserMedia({ audio: buildMicConstraints(settings) });
       micStreamRef.current = stream;
 
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: SYSTEM_INSTRUCTION,
-          outputAudioTranscription: {},
-          inputAudioTranscription: {},
+      // Continue the current record when it belongs to this course; buildLiveParams feeds the
+      // tutor what was said so far
+      let sessionRecord = activeSession;
+      let currentPlan = sessionPlan;
+      if (sessionRecord?.courseId !== course.id) {
+        currentPlan = EMPTY_SESSION_PLAN;
+        sessionRecord = createSessionRecord(course);
+        setActiveSession(sessionRecord);
+        setTranscriptions([]);
+        transcriptionsRef.current = [];
+        setRecording(null);
+        setQuizAnswers([]);
+        setQuizSummary(null);
+        setSessionPlan(EMPTY_SESSION_PLAN);
+      }
+
+      turnRef.current = createTranscriptAssembler({ textReplies: mode === 'text' });
+      // Text sessions have no audio to record
+      if (isRecordingEnabled && mode !== 'text') {
+        const previous = recording?.sessionId === sessionRecord.id ? recording : null;
+        recorderRef.current = createSessionRecorder(sessionRecord.id, previous);
+      }
+
+      const isQuiz = sessionMode === 'quiz';
+      const isPlanner = sessionMode === 'planner';
+      const hasSections = course.sections.length > 0;
+      const functionDeclarations = [
+        ...(isQuiz ? buildQuizFunctionDeclarations(course.highlights.modules) : []),
+        ...(isPlanner ? buildPlanFunctionDeclarations(course.highlights.tools) : []),
+        ...(hasSections ? [buildCitationFunctionDeclaration(course.sections)] : []),
+      ];
+      // Native audio models only answer in audio, so text sessions fall back to a half-cascade model
+      const chosenModel = settings.modelName.trim() || MODEL_NAME;
+      liveSettingsRef.current = {
+        modelName: mode === 'text' && chosenModel.includes('native-audio') ? TEXT_MODEL_NAME : chosenModel,
+        systemInstruction: course.systemInstruction
+          + (hasSections ? CITATION_INSTRUCTION : '')
+          + SCREEN_SHARE_INSTRUCTION
+          + (isQuiz ? buildQuizInstruction(course.highlights.modules) : '')
+          + (isPlanner ? buildPlannerInstruction(course.highlights.tools, hasPlanContent(currentPlan) ? currentPlan : null) : '')
+          + buildLanguageInstruction(locale),
+        voiceName: settings.voiceName || course.voiceName,
+        sections: course.sections,
+        locale,
+        inputMode: mode,
+        playbackRate: settings.playbackRate,
+        volume: settings.volume,
+        ...(functionDeclarations.length > 0 && { tools: [{ functionDeclarations }] }),
+      };
+      const connection = createLiveConnection({
+        createClient: createLiveClient,
+        buildParams: handle => buildLiveParams(liveSettingsRef.current!, handle, transcriptionsRef.current),
+        onStateChange: handleConnectionState,
+        onSession: session => {
+          sessionRef.current = session;
         },
-        callbacks: {
-          onopen: () => {
-            setConnectionState(ConnectionState.CONNECTED);
-            setIsListening(true);
-            
-            // Start streaming microphone
-            const source = audioContextInRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = audioContextInRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioContextInRef.current!.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Audio Data
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio) {
-              const outCtx = audioContextOutRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outCtx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(decode(base64Audio), outCtx, 24000, 1);
-              const source = outCtx.createBufferSource();
-              source.buffer = audioBuffer;
-              const gainNode = outCtx.createGain();
-              source.connect(gainNode).connect(outCtx.destination);
-              
-              source.addEventListener('ended', () => {
-                activeSourcesRef.current.delete(source);
-              });
-
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              activeSourcesRef.current.add(source);
-            }
-
-            // Handle Transcriptions
-            if (message.serverContent?.outputTranscription) {
-              currentOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
-            } else if (message.serverContent?.inputTranscription) {
-              currentInputTranscriptionRef.current += message.serverContent.inputTranscription.text;
-            }
-
-            if (message.serverContent?.turnComplete) {
-              const userText = currentInputTranscriptionRef.current.trim();
-              const modelText = currentOutputTranscriptionRef.current.trim();
-              
-              if (userText || modelText) {
-                setTranscriptions(prev => [
-                  ...prev,
-                  ...(userText ? [{ role: 'user' as const, text: userText, timestamp: new Date() }] : []),
-                  ...(modelText ? [{ role: 'model' as const, text: modelText, timestamp: new Date() }] : []),
-                ]);
-              }
-              currentInputTranscriptionRef.current = '';
-              currentOutputTranscriptionRef.current = '';
-            }
-
-            // Handle Interrupts
-            if (message.serverContent?.interrupted) {
-              activeSourcesRef.current.forEach(s => s.stop());
-              activeSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (e) => {
-            console.error('Live API Error:', e);
-            setConnectionState(ConnectionState.ERROR);
-            stopConversation();
-          },
-          onclose: () => {
-            setConnectionState(ConnectionState.DISCONNECTED);
+        onMessage: handleServerMessage,
+        onDrop: handleConnectionDrop,
+      });
+      liveConnectionRef.current = connection;
+      await connection.start();
+      if (!stream) return;
+
+      // Start streaming microphone; it keeps running across reconnects
+      captureRef.current = await startAudioCapture(audioContextInRef.current, stream, frame => {
+        recorderRef.current?.addInput(frame.samples, CAPTURE_SAMPLE_RATE);
+        const session = sessionRef.current;
+        if (!session) return;
+
+        const speaking = !mutedRef.current && (mode === 'push-to-talk' ? talkingRef.current : frame.voiced);
+        dispatchSpeaking({ type: speaking ? 'user-voice' : 'user-silence' });
+
+        if (mode === 'push-to-talk') {
+          if (!talkingRef.current) return;
+        } else if (!frame.voiced) {
+          // Tell the server the stream paused so it can close the turn without more silence
+          if (streamingRef.current) {
+            streamingRef.current = false;
+            session.sendRealtimeInput({ audioStreamEnd: true });
           }
+          return;
+        } else if (frame.preroll) {
+          session.sendRealtimeInput({ media: createBlob(frame.preroll) });
         }
+        streamingRef.current = true;
+        session.sendRealtimeInput({ media: createBlob(frame.pcm) });
       });
-
-      sessionRef.current = await sessionPromise;
+      setAnalysers({ input: captureRef.current.analyser, output: outputAnalyserRef.current! });
     } catch (err) {
       console.error('Failed to start conversation:', err);
+      stopConversation();
       setConnectionState(ConnectionState.ERROR);
+      setSessionError(classifySessionError(err));
     }
   };
 
-  const clearHistory = () => {
+  // Alt shortcuts; subscribed again on each render so the handlers see current state
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const action = matchShortcut(e);
+      if (!action || (isTyping(e.target) && action !== 'focus-message')) return;
+      e.preventDefault();
+      const isActive = connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR;
+      const handlers: Record<ShortcutAction, () => void> = {
+        'toggle-session': () => (isActive ? stopConversation() : startConversation()),
+        'toggle-mute': () => {
+          if (connectionState === ConnectionState.CONNECTED && inputMode !== 'text') toggleMute();
+        },
+        'toggle-captions': () => setSettings({ ...settings, captions: !settings.captions }),
+        'focus-message': () => document.getElementById('chat-message')?.focus(),
+        'show-shortcuts': () => setIsShortcutsOpen(true),
+      };
+      handlers[action]();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const clearHistory = async () => {
+    // Saved sessions are kept; clearing starts a fresh record
+    const isRecording = recorderRef.current !== null;
+    await finishRecording();
     setTranscriptions([]);
+    setRecording(null);
+    setQuizAnswers([]);
+    setQuizSummary(null);
+    setSessionPlan(EMPTY_SESSION_PLAN);
+    if (connectionState === ConnectionState.CONNECTED) {
+      const sessionRecord = createSessionRecord(course);
+      setActiveSession(sessionRecord);
+      if (isRecording) recorderRef.current = createSessionRecorder(sessionRecord.id);
+    } else {
+      setActiveSession(null);
+    }
+  };
+
+  const resumeSession = async (session: TutorSession) => {
+    setSelectedCourseId(session.courseId);
+    setActiveSession(session);
+    setTranscriptions(session.entries);
+    setQuizAnswers(session.quiz?.answers ?? []);
+    setQuizSummary(session.quiz?.summary ?? null);
+    setSessionPlan(session.plan ?? EMPTY_SESSION_PLAN);
+    setIsHistoryOpen(false);
+    try {
+      setRecording(await getRecording(session.id));
+    } catch (err) {
+      console.error('Failed to load recording:', err);
+      setRecording(null);
+    }
+  };
+
+  const removeSession = async (session: TutorSession) => {
+    try {
+      await deleteSession(session.id);
+      await deleteRecording(session.id);
+      setPastSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+    }
   };
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col items-center p-4 md:p-8">
       <header className="w-full max-w-5xl mb-8 text-center">
-        <h1 className="text-3xl md:text-4xl font-bold text-slate-900 mb-2">AI Course Tutor</h1>
-        <p className="text-slate-600 italic">"Inteligência Artificial Generativa versus Agentiva"</p>
-        <div className="mt-4 flex justify-center gap-2">
-           <span className={`px-3 py-1 rounded-full text-xs font-semibold uppercase tracking-wider ${
+        <h1 className="text-3xl md:text-4xl font-bold text-slate-900 mb-2">{t.app.title}</h1>
+        <p className="text-slate-600 italic">"{course.highlights.title}"</p>
+        <div className="mt-4 flex justify-center items-center gap-2">
+           <span role="status" className={`px-3 py-1 rounded-full text-xs font-semibold uppercase tracking-wider ${
              connectionState === ConnectionState.CONNECTED ? 'bg-green-100 text-green-700' :
              connectionState === ConnectionState.CONNECTING ? 'bg-blue-100 text-blue-700' :
+             connectionState === ConnectionState.RECONNECTING ? 'bg-amber-100 text-amber-700' :
              connectionState === ConnectionState.ERROR ? 'bg-red-100 text-red-700' :
              'bg-slate-200 text-slate-600'
            }`}>
-             {connectionState}
+             {t.app.connectionStates[connectionState]}
            </span>
+           <button
+             onClick={() => setIsHistoryOpen(true)}
+             className="px-3 py-1 rounded-full text-xs font-semibold uppercase tracking-wider bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 transition-colors"
+           >
+             {t.app.history(pastSessions.length)}
+           </button>
+           <button
+             onClick={() => setIsSettingsOpen(true)}
+             className="px-3 py-1 rounded-full text-xs font-semibold uppercase tracking-wider bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 transition-colors"
+           >
+             {t.settings.button}
+           </button>
+           <button
+             onClick={() => setIsAnalyticsOpen(true)}
+             className="px-3 py-1 rounded-full text-xs font-semibold uppercase tracking-wider bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 transition-colors"
+           >
+             {t.analytics.button}
+           </button>
+           <LanguageSwitcher sessionActive={connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR} />
         </div>
       </header>
 
       <main className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {/* Course Info Column */}
-        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 lg:col-span-1">
-          <h2 className="text-xl font-semibold mb-4 text-slate-800 flex items-center gap-2">
-             <svg className="w-5 h-5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.246.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
-             Course Highlights
-          </h2>
-          <div className="space-y-4 text-sm text-slate-600">
-            <div>
-              <p className="font-bold text-slate-800">Title</p>
-              <p>IA Generativa vs Agentiva</p>
-            </div>
-            <div>
-              <p className="font-bold text-slate-800">Duration</p>
-              <p>25 Hours (25 Accredited)</p>
-            </div>
-            <div>
-              <p className="font-bold text-slate-800">Key Tools</p>
-              <p>MagicSchool.ai, n8n.io, customGPTs</p>
-            </div>
-            <div className="pt-4 border-t border-slate-100">
-              <p className="font-bold text-slate-800 mb-2">Evaluation Breakdown</p>
-              <div className="flex justify-between items-center mb-1">
-                <span>Participation</span>
-                <span className="font-medium">30%</span>
-              </div>
-              <div className="w-full bg-slate-100 rounded-full h-1.5 mb-3">
-                <div className="bg-indigo-500 h-1.5 rounded-full" style={{ width: '30%' }}></div>
-              </div>
-              <div className="flex justify-between items-center mb-1">
-                <span>Microproject</span>
-                <span className="font-medium">40%</span>
-              </div>
-              <div className="w-full bg-slate-100 rounded-full h-1.5 mb-3">
-                <div className="bg-indigo-500 h-1.5 rounded-full" style={{ width: '40%' }}></div>
-              </div>
-              <div className="flex justify-between items-center mb-1">
-                <span>Reflection</span>
-                <span className="font-medium">30%</span>
-              </div>
-              <div className="w-full bg-slate-100 rounded-full h-1.5">
-                <div className="bg-indigo-500 h-1.5 rounded-full" style={{ width: '30%' }}></div>
-              </div>
-            </div>
-          </div>
-        </section>
+        {/* Course Info Column, or the cited passage in the source document */}
+        {citationTarget ? (
+          <DocumentViewer
+            title={course.highlights.title}
+            sections={course.sections}
+            target={citationTarget}
+            onClose={() => setCitationTarget(null)}
+          />
+        ) : (
+          <CourseHighlights highlights={course.highlights}>
+            <DocumentLoader
+              document={course.document ?? null}
+              sectionCount={course.sections.length}
+              sessionActive={connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING}
+              onLoad={addCourseFromDocument}
+              onRemove={() => removeCourse(course.id)}
+            />
+            {(sessionMode === 'quiz' || quizAnswers.length > 0) && (
+              <QuizScoreboard modules={course.highlights.modules} answers={quizAnswers} summary={quizSummary} />
+            )}
+          </CourseHighlights>
+        )}
 
         {/* Conversation Column */}
         <section className="lg:col-span-2 flex flex-col gap-6">
           {/* Chat Bubble History */}
           <div className="bg-white rounded-2xl shadow-sm border border-slate-200 flex flex-col h-[500px]">
             <div className="p-4 border-b border-slate-100 flex justify-between items-center">
-              <span className="text-sm font-medium text-slate-500">Live Conversation History</span>
-              <button 
-                onClick={clearHistory}
-                className="text-xs text-slate-400 hover:text-red-500 transition-colors"
-              >
-                Clear
-              </button>
+              <span className="text-sm font-medium text-slate-500">{t.app.conversationHistory}</span>
+              <div className="flex items-center gap-4">
+                <ExportMenu
+                  meta={{
+                    courseTitle: activeSession?.courseTitle ?? course.highlights.title,
+                    sessionId: activeSession?.id,
+                    startedAt: activeSession?.startedAt ?? transcriptions[0]?.timestamp ?? new Date(),
+                    endedAt: transcriptions[transcriptions.length - 1]?.timestamp ?? new Date(),
+                  }}
+                  entries={transcriptions}
+                />
+                <button 
+                  onClick={clearHistory}
+                  className="text-xs text-slate-400 hover:text-red-500 transition-colors"
+                >
+                  {t.app.clear}
+                </button>
+              </div>
             </div>
-            <div className="flex-1 overflow-y-auto p-4 space-y-4 scroll-smooth">
-              {transcriptions.length === 0 && (
+            {recording && recording.sessionId === activeSession?.id && connectionState !== ConnectionState.CONNECTED && (
+              <SessionPlayer
+                recording={recording}
+                fileName={buildExportFileName(activeSession, 'wav')}
+                onTimeUpdate={setPlaybackTime}
+              />
+            )}
+            {/* Finished entries are announced as they are added; the live turn is left out so it is not read word by word */}
+            <div
+              ref={transcriptContainerRef}
+              role="log"
+              aria-live="polite"
+              aria-relevant="additions"
+              aria-label={t.app.conversationHistory}
+              className="flex-1 overflow-y-auto p-4 space-y-4 scroll-smooth"
+            >
+              {transcriptions.length === 0 && !liveTurn.user && !liveTurn.model && (
                 <div className="h-full flex flex-col items-center justify-center text-slate-400 space-y-2">
                   <svg className="w-12 h-12 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" /></svg>
-                  <p className="text-sm">Start the conversation to see transcripts</p>
+                  <p className="text-sm">{t.app.emptyTranscript}</p>
                 </div>
               )}
               {transcriptions.map((entry, i) => (
-                <div key={i} className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div key={i} ref={el => { entryRefs.current[i] = el; }} className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                   <div className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm leading-relaxed shadow-sm ${
                     entry.role === 'user' 
                       ? 'bg-indigo-600 text-white rounded-tr-none' 
                       : 'bg-slate-100 text-slate-800 rounded-tl-none border border-slate-200'
-                  }`}>
+                  } ${i === playbackIndex ? 'ring-2 ring-amber-400 ring-offset-2' : ''}`}>
+                    <span className="sr-only">{entry.role === 'user' ? t.app.you : t.app.tutor}: </span>
                     {entry.text}
+                    {entry.citations && (
+                      <CitationChips citations={entry.citations} sections={course.sections} onSelect={setCitationTarget} />
+                    )}
                   </div>
                 </div>
               ))}
+              {liveTurn.user.trim() && (
+                <div className="flex justify-end" aria-hidden="true">
+                  <div className="max-w-[85%] rounded-2xl rounded-tr-none px-4 py-2 text-sm leading-relaxed bg-indigo-400 text-white opacity-80">
+                    {liveTurn.user}
+                    <span className="ml-1 animate-pulse">…</span>
+                  </div>
+                </div>
+              )}
+              {liveTurn.model.trim() && (
+                <div className="flex justify-start" aria-hidden="true">
+                  <div className="max-w-[85%] rounded-2xl rounded-tl-none px-4 py-2 text-sm leading-relaxed bg-slate-50 text-slate-600 border border-dashed border-slate-300">
+                    {liveTurn.model}
+                    <span className="ml-1 animate-pulse">…</span>
+                  </div>
+                </div>
+              )}
             </div>
 
+            <ChatInput disabled={connectionState !== ConnectionState.CONNECTED} onSend={text => sendTextMessage(text, 'typed')} />
+
             {/* Quick Questions Section */}
             <div className="px-4 py-3 bg-white border-t border-slate-100">
-               <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Quick Questions</p>
+               <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">{t.app.quickQuestions}</p>
                <div className="flex flex-wrap gap-2">
-                 {QUICK_QUESTIONS.map((q, idx) => (
+                 {(
+                   sessionMode === 'quiz' ? QUIZ_QUICK_QUESTIONS :
+                   sessionMode === 'planner' ? PLANNER_QUICK_QUESTIONS :
+                   course.quickQuestions
+                 )[locale].map((q, idx) => (
                    <button
                     key={idx}
                     disabled={connectionState !== ConnectionState.CONNECTED}
-                    onClick={() => sendTextMessage(q.text)}
+                    onClick={() => sendTextMessage(q.text, 'quick-question')}
                     className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium transition-all duration-200 ${
                       connectionState === ConnectionState.CONNECTED 
                       ? 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100 active:scale-95 border border-indigo-100' 
@@ -345,39 +853,269 @@ export default function App() {
             <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-2xl">
               <div className="flex flex-col items-center gap-4">
                 {connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? (
-                  <button 
-                    onClick={startConversation}
-                    className="group relative inline-flex items-center justify-center px-8 py-3 font-semibold text-white transition-all duration-200 bg-indigo-600 rounded-full hover:bg-indigo-700 active:scale-95 shadow-lg shadow-indigo-200"
-                  >
-                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
-                    Start Tutoring Session
-                  </button>
-                ) : (
                   <div className="flex flex-col items-center gap-4 w-full">
-                    <div className="flex items-center gap-3">
-                      <div className="flex gap-1 h-6 items-end">
-                        {[...Array(6)].map((_, i) => (
-                          <div key={i} className={`w-1 bg-indigo-500 rounded-full animate-pulse`} style={{ animationDelay: `${i * 0.15}s`, height: `${30 + Math.random() * 70}%` }}></div>
-                        ))}
-                      </div>
-                      <span className="text-sm font-medium text-slate-700 animate-pulse">AI is listening...</span>
+                    <CoursePicker
+                      courses={courses}
+                      selectedId={course.id}
+                      onSelect={setSelectedCourseId}
+                    />
+                    <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={isRecordingEnabled}
+                        onChange={e => setIsRecordingEnabled(e.target.checked)}
+                        className="rounded border-slate-300 text-indigo-600"
+                      />
+                      {t.app.recordAudio}
+                    </label>
+                    {sessionError && (
+                      <SessionErrorNotice
+                        kind={sessionError}
+                        onRetry={() => startConversation()}
+                        onUseText={() => startConversation('text')}
+                      />
+                    )}
+                    <div role="group" aria-label={t.app.sessionType} className="flex rounded-full border border-slate-200 bg-white p-0.5 text-xs">
+                      {([
+                        ['tutor', t.app.tutorMode],
+                        ['quiz', t.app.quizMode],
+                        ['planner', t.app.plannerMode],
+                      ] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => setSessionMode(mode)}
+                          aria-pressed={sessionMode === mode}
+                          className={`px-3 py-1 rounded-full transition-colors ${
+                            sessionMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-700'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div role="group" aria-label={t.app.inputType} className="flex rounded-full border border-slate-200 bg-white p-0.5 text-xs">
+                      {([
+                        ['voice-activity', t.app.voiceActivity],
+                        ['push-to-talk', t.app.pushToTalk],
+                        ['text', t.app.textOnly],
+                      ] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => setInputMode(mode)}
+                          aria-pressed={inputMode === mode}
+                          className={`px-3 py-1 rounded-full transition-colors ${
+                            inputMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-700'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
                     </div>
                     <button 
-                      onClick={stopConversation}
-                      className="px-6 py-2 border border-red-200 text-red-600 font-medium rounded-full hover:bg-red-50 transition-all active:scale-95 text-sm"
+                      onClick={() => startConversation()}
+                      aria-keyshortcuts={shortcutKeys('toggle-session')}
+                      className="group relative inline-flex items-center justify-center px-8 py-3 font-semibold text-white transition-all duration-200 bg-indigo-600 rounded-full hover:bg-indigo-700 active:scale-95 shadow-lg shadow-indigo-200"
                     >
-                      Stop Session
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+                      {inputMode === 'text' ? t.app.startTextSession : t.app.startSession}
                     </button>
                   </div>
+                ) : (
+                  <div className="flex flex-col items-center gap-4 w-full">
+                    {connectionState === ConnectionState.RECONNECTING ? (
+                      <div className="flex flex-col items-center gap-2" role="status">
+                        <span className="text-sm font-medium text-amber-700">
+                          {reconnectAt !== null && reconnectAt > now
+                            ? t.app.reconnectingIn(Math.ceil((reconnectAt - now) / 1000))
+                            : t.app.reconnecting}
+                        </span>
+                        <span className="text-[11px] text-slate-400">
+                          {t.app.reconnectAttempt(reconnectAttempt, MAX_RECONNECT_ATTEMPTS)}
+                        </span>
+                        <button
+                          onClick={retryNow}
+                          className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                        >
+                          {t.app.retryNow}
+                        </button>
+                      </div>
+                    ) : inputMode === 'text' ? (
+                      <span role="status" className="text-sm font-medium text-slate-700">
+                        {connectionState === ConnectionState.CONNECTED ? t.app.textSessionActive : t.app.connectionStates[connectionState]}
+                      </span>
+                    ) : (
+                      <div className="flex items-center gap-6">
+                        <AudioVisualizer
+                          analyser={analysers?.input ?? null}
+                          label={t.app.micLevel}
+                          barClassName="bg-indigo-500"
+                          active={!isMuted && speakingState === 'user-speaking'}
+                        />
+                        <span
+                          role="status"
+                          className={`w-40 text-center text-sm font-medium ${
+                            isMuted ? 'text-slate-400' :
+                            speakingState === 'interrupted' ? 'text-amber-600' :
+                            speakingState === 'listening' ? 'text-slate-700 animate-pulse' : 'text-slate-700'
+                          }`}
+                        >
+                          {isMuted ? t.app.micMuted : t.app.speakingStates[speakingState]}
+                        </span>
+                        <AudioVisualizer
+                          analyser={analysers?.output ?? null}
+                          label={t.app.tutorLevel}
+                          barClassName="bg-emerald-500"
+                          active={speakingState === 'model-speaking'}
+                        />
+                      </div>
+                    )}
+                    {inputMode === 'push-to-talk' && connectionState === ConnectionState.CONNECTED && (
+                      <div className="flex flex-col items-center gap-1">
+                        <button
+                          onPointerDown={startTalking}
+                          onPointerUp={stopTalking}
+                          onPointerLeave={stopTalking}
+                          onPointerCancel={stopTalking}
+                          disabled={isMuted}
+                          aria-keyshortcuts="Space"
+                          className={`px-8 py-3 rounded-full font-semibold select-none touch-none transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                            isTalking
+                              ? 'bg-green-600 text-white scale-105 shadow-lg shadow-green-200'
+                              : 'bg-white text-indigo-600 border border-indigo-200 hover:bg-indigo-50'
+                          }`}
+                        >
+                          {isTalking ? t.app.talking : t.app.holdToTalk}
+                        </button>
+                        <p className="text-[11px] text-slate-400">{t.app.orHoldSpace}</p>
+                      </div>
+                    )}
+                    {videoCapture && (
+                      <VideoPreview
+                        stream={videoCapture.stream}
+                        label={videoCapture.source === 'screen' ? t.app.sharingScreen : t.app.sharingCamera}
+                        mirrored={videoCapture.source === 'camera'}
+                      />
+                    )}
+                    <div className="flex flex-wrap justify-center gap-3">
+                      {canShareScreen && (
+                        <button
+                          onClick={() => toggleVideo('screen')}
+                          aria-pressed={videoCapture?.source === 'screen'}
+                          disabled={connectionState !== ConnectionState.CONNECTED && !videoCapture}
+                          className={`px-6 py-2 border font-medium rounded-full transition-all active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                            videoCapture?.source === 'screen'
+                              ? 'bg-indigo-600 border-indigo-600 text-white hover:bg-indigo-700'
+                              : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                          }`}
+                        >
+                          {videoCapture?.source === 'screen' ? t.app.stopScreenShare : t.app.shareScreen}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => toggleVideo('camera')}
+                        aria-pressed={videoCapture?.source === 'camera'}
+                        disabled={connectionState !== ConnectionState.CONNECTED && !videoCapture}
+                        className={`px-6 py-2 border font-medium rounded-full transition-all active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                          videoCapture?.source === 'camera'
+                            ? 'bg-indigo-600 border-indigo-600 text-white hover:bg-indigo-700'
+                            : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                        }`}
+                      >
+                        {videoCapture?.source === 'camera' ? t.app.stopCamera : t.app.camera}
+                      </button>
+                      {inputMode !== 'text' && (
+                        <button
+                          onClick={() => setSettings({ ...settings, captions: !settings.captions })}
+                          aria-pressed={settings.captions}
+                          aria-keyshortcuts={shortcutKeys('toggle-captions')}
+                          className={`px-6 py-2 border font-medium rounded-full transition-all active:scale-95 text-sm ${
+                            settings.captions
+                              ? 'bg-indigo-600 border-indigo-600 text-white hover:bg-indigo-700'
+                              : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                          }`}
+                        >
+                          {t.app.captions}
+                        </button>
+                      )}
+                      {inputMode !== 'text' && (
+                        <button
+                          onClick={toggleMute}
+                          aria-pressed={isMuted}
+                          aria-keyshortcuts={shortcutKeys('toggle-mute')}
+                          className={`px-6 py-2 border font-medium rounded-full transition-all active:scale-95 text-sm ${
+                            isMuted
+                              ? 'bg-slate-700 border-slate-700 text-white hover:bg-slate-800'
+                              : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                          }`}
+                        >
+                          {isMuted ? t.app.unmute : t.app.mute}
+                        </button>
+                      )}
+                      <button 
+                        onClick={stopConversation}
+                        aria-keyshortcuts={shortcutKeys('toggle-session')}
+                        className="px-6 py-2 border border-red-200 text-red-600 font-medium rounded-full hover:bg-red-50 transition-all active:scale-95 text-sm"
+                      >
+                        {t.app.stopSession}
+                      </button>
+                    </div>
+                  </div>
                 )}
                 <p className="text-[10px] text-slate-400 uppercase tracking-widest text-center">
-                  Powered by Gemini 2.5 Native Audio
+                  {t.app.poweredBy}
                 </p>
+                <button
+                  onClick={() => setIsShortcutsOpen(true)}
+                  aria-keyshortcuts={shortcutKeys('show-shortcuts')}
+                  className="text-[11px] text-slate-400 hover:text-slate-600"
+                >
+                  {t.app.shortcuts} ({shortcutKeys('show-shortcuts')})
+                </button>
               </div>
             </div>
           </div>
+
+          {(sessionMode === 'planner' || hasPlanContent(sessionPlan)) && (
+            <SessionPlanEditor plan={sessionPlan} onChange={setSessionPlan} />
+          )}
         </section>
       </main>
+
+      {isHistoryOpen && (
+        <SessionHistory
+          sessions={pastSessions}
+          activeSessionId={activeSession?.id ?? null}
+          canResume={connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR}
+          onResume={resumeSession}
+          onDelete={removeSession}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={settings}
+          courseVoiceName={course.voiceName}
+          onChange={setSettings}
+          onReset={() => setSettings(DEFAULT_SETTINGS)}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isShortcutsOpen && <ShortcutsHelp onClose={() => setIsShortcutsOpen(false)} />}
+
+      {settings.captions && inputMode !== 'text' && connectionState === ConnectionState.CONNECTED && (
+        <CaptionsOverlay text={liveTurn.model} />
+      )}
+
+      {isAnalyticsOpen && (
+        <AnalyticsDashboard
+          sessions={pastSessions}
+          courses={courses}
+          initialCourseId={course.id}
+          onClose={() => setIsAnalyticsOpen(false)}
+        />
+      )}
     </div>
   );
 }
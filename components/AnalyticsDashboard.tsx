@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { CourseConfig, TutorSession } from '../types';
+import { buildCourseAnalytics, questionsToCsv, summaryToCsv } from '../services/analytics';
+import { QUIZ_MAX_SCORE } from '../services/quiz';
+import { downloadFile } from '../services/transcriptExport';
+import { slugify } from '../utils/text';
+import { useI18n } from '../i18n';
+import { useDialog } from '../utils/dialog';
+
+interface AnalyticsDashboardProps {
+  sessions: TutorSession[];
+  courses: CourseConfig[];
+  initialCourseId: string;
+  onClose: () => void;
+}
+
+const labelClassName = 'block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2';
+
+export default function AnalyticsDashboard({ sessions, courses, initialCourseId, onClose }: AnalyticsDashboardProps) {
+  const { t, locale } = useI18n();
+  const [courseId, setCourseId] = useState(initialCourseId);
+  const course = courses.find(c => c.id === courseId) ?? courses[0];
+  const analytics = useMemo(() => buildCourseAnalytics(sessions, course), [sessions, course]);
+  const dialogRef = useDialog<HTMLElement>(onClose);
+
+  const flagged = analytics.questions.filter(q => q.status !== 'answered');
+  const unmatched = analytics.questions.filter(q => q.module === null).length;
+  const maxQuestions = Math.max(1, unmatched, ...analytics.modules.map(m => m.questions));
+  const fileName = `${slugify(course.highlights.title)}-analytics`;
+
+  const stats = [
+    { label: t.analytics.sessions, value: String(analytics.sessionCount) },
+    { label: t.analytics.totalTime, value: t.analytics.minutes(analytics.totalMinutes) },
+    { label: t.analytics.averageTime, value: t.analytics.minutes(analytics.averageMinutes) },
+    { label: t.analytics.medianTime, value: t.analytics.minutes(analytics.medianMinutes) },
+  ];
+
+  const topicRow = (name: string, questions: number, quizScore: number | null) => (
+    <tr key={name} className="border-t border-slate-100">
+      <td className="py-2 pr-3 text-slate-700">{name}</td>
+      <td className="py-2 pr-3 w-1/3">
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${(questions / maxQuestions) * 100}%` }}></div>
+          </div>
+          <span className="text-xs text-slate-500 w-6 text-right">{questions}</span>
+        </div>
+      </td>
+      <td className="py-2 text-right text-slate-500">{quizScore === null ? '–' : `${quizScore.toFixed(1)}/${QUIZ_MAX_SCORE}`}</td>
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center p-4 md:p-8">
+      <div className="absolute inset-0 bg-slate-900/20" onClick={onClose}></div>
+      <section
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="analytics-heading"
+        className="relative w-full max-w-5xl max-h-full bg-white rounded-2xl shadow-xl border border-slate-200 flex flex-col"
+      >
+        <div className="p-4 border-b border-slate-100 flex flex-wrap gap-3 justify-between items-center">
+          <h2 id="analytics-heading" className="text-lg font-semibold text-slate-800">{t.analytics.heading}</h2>
+          <div className="flex items-center gap-3 text-sm">
+            <select
+              value={course.id}
+              onChange={e => setCourseId(e.target.value)}
+              aria-label={t.analytics.course}
+              className="px-3 py-1.5 rounded-full border border-slate-200 bg-white text-xs text-slate-600"
+            >
+              {courses.map(c => <option key={c.id} value={c.id}>{c.highlights.title}</option>)}
+            </select>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">{t.analytics.close}</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          <div className="flex flex-wrap justify-between items-center gap-3">
+            <p className="text-xs text-slate-500">{t.analytics.privacyNote}</p>
+            <div className="flex gap-3 text-xs">
+              <button
+                onClick={() => downloadFile(summaryToCsv(analytics), `${fileName}-summary.csv`, 'text/csv;charset=utf-8')}
+                disabled={analytics.sessionCount === 0}
+                className="text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t.analytics.exportSummary}
+              </button>
+              <button
+                onClick={() => downloadFile(questionsToCsv(analytics.questions), `${fileName}-questions.csv`, 'text/csv;charset=utf-8')}
+                disabled={analytics.questions.length === 0}
+                className="text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t.analytics.exportQuestions}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+                <span className={labelClassName}>{stat.label}</span>
+                <span className="text-2xl font-semibold text-slate-800">{stat.value}</span>
+              </div>
+            ))}
+          </div>
+
+          {analytics.sessionCount === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-8">{t.analytics.empty}</p>
+          ) : (
+            <>
+              <div>
+                <h3 className={labelClassName}>{t.analytics.topics}</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-400">
+                      <th className="pb-2 font-medium">{t.analytics.module}</th>
+                      <th className="pb-2 font-medium">{t.analytics.questions}</th>
+                      <th className="pb-2 font-medium text-right">{t.analytics.quizAverage}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.modules.map(m => topicRow(m.module, m.questions, m.averageQuizScore))}
+                    {unmatched > 0 && topicRow(t.analytics.otherTopics, unmatched, null)}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h3 className={labelClassName}>{t.analytics.needsAttention}</h3>
+                {flagged.length === 0 ? (
+                  <p className="text-sm text-slate-400">{t.analytics.noIssues}</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {flagged.map((q, i) => (
+                      <li key={i} className="p-3 rounded-xl border border-slate-100 bg-slate-50 text-sm">
+                        <div className="flex flex-wrap gap-2 items-center text-[11px] mb-1">
+                          <span className={`px-2 py-0.5 rounded-full font-medium ${q.status === 'unanswered' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-700'}`}>
+                            {t.analytics.statuses[q.status]}
+                          </span>
+                          <span className="text-slate-400">
+                            {t.analytics.sessionLabel(q.sessionNumber)} · {q.askedAt.toLocaleDateString(locale)}
+                            {q.module && ` · ${q.module}`}
+                          </span>
+                        </div>
+                        <p className="text-slate-700">{q.question}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+
+          <div>
+            <h3 className={labelClassName}>{t.analytics.quickQuestions}</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="pb-2 font-medium">{t.analytics.questions}</th>
+                  <th className="pb-2 font-medium text-right">{t.analytics.clicks}</th>
+                  <th className="pb-2 font-medium text-right">{t.analytics.clickedSessions}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.quickQuestions.map(q => (
+                  <tr key={q.text} className={`border-t border-slate-100 ${q.clicks === 0 ? 'text-slate-400' : 'text-slate-700'}`}>
+                    <td className="py-2 pr-3">{q.text}</td>
+                    <td className="py-2 text-right">{q.clicks}</td>
+                    <td className="py-2 text-right">{q.sessions}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+
+interface AudioVisualizerProps {
+  analyser: AnalyserNode | null;
+  label: string;
+  barClassName: string;
+  active?: boolean;
+}
+
+const BAR_COUNT = 12;
+// Speech energy sits below ~4 kHz; higher bins would leave most bars flat
+const MAX_FREQUENCY = 4000;
+const MIN_HEIGHT = 8; // percent
+
+export default function AudioVisualizer({ analyser, label, barClassName, active = true }: AudioVisualizerProps) {
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    const setHeights = (heightOf: (bar: number) => number) => {
+      barRefs.current.forEach((bar, i) => {
+        if (bar) bar.style.height = `${heightOf(i)}%`;
+      });
+    };
+    if (!analyser) {
+      setHeights(() => MIN_HEIGHT);
+      return;
+    }
+
+    analyser.fftSize = 256;
+    analyser.smoothingTimeConstant = 0.7;
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    const binWidth = analyser.context.sampleRate / analyser.fftSize;
+    const usedBins = Math.min(bins.length, Math.max(BAR_COUNT, Math.floor(MAX_FREQUENCY / binWidth)));
+    const binsPerBar = Math.floor(usedBins / BAR_COUNT);
+
+    let frame = 0;
+    const draw = () => {
+      analyser.getByteFrequencyData(bins);
+      setHeights(bar => {
+        let sum = 0;
+        for (let i = bar * binsPerBar; i < (bar + 1) * binsPerBar; i++) sum += bins[i];
+        return MIN_HEIGHT + ((100 - MIN_HEIGHT) * sum) / (binsPerBar * 255);
+      });
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <div className="flex flex-col items-center gap-1" role="img" aria-label={label}>
+      <div className={`flex gap-0.5 h-8 items-end transition-opacity ${active ? 'opacity-100' : 'opacity-40'}`}>
+        {Array.from({ length: BAR_COUNT }, (_, i) => (
+          <div
+            key={i}
+            ref={el => { barRefs.current[i] = el; }}
+            className={`w-1 rounded-full transition-[height] duration-75 ${barClassName}`}
+            style={{ height: `${MIN_HEIGHT}%` }}
+          ></div>
+        ))}
+      </div>
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{label}</span>
+    </div>
+  );
+}
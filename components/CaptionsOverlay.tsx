@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface CaptionsOverlayProps {
+  text: string;
+}
+
+// Roughly two lines of captions; older words scroll away as the tutor keeps talking
+const MAX_CAPTION_CHARS = 140;
+
+function captionTail(text: string) {
+  const trimmed = text.trim();
+  if (trimmed.length <= MAX_CAPTION_CHARS) return trimmed;
+  const tail = trimmed.slice(-MAX_CAPTION_CHARS);
+  return `…${tail.slice(tail.indexOf(' ') + 1)}`;
+}
+
+/** The tutor's speech as it is transcribed. Screen readers get the same text from the transcript. */
+export default function CaptionsOverlay({ text }: CaptionsOverlayProps) {
+  if (!text.trim()) return null;
+  return (
+    <div aria-hidden="true" className="fixed inset-x-0 bottom-6 z-30 flex justify-center px-4 pointer-events-none">
+      <p className="max-w-2xl px-4 py-2 rounded-xl bg-slate-900/85 text-white text-lg leading-snug text-center shadow-lg">
+        {captionTail(text)}
+      </p>
+    </div>
+  );
+}
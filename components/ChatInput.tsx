@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n';
+
+interface ChatInputProps {
+  disabled: boolean;
+  onSend: (text: string) => void;
+}
+
+export default function ChatInput({ disabled, onSend }: ChatInputProps) {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = text.trim();
+    if (!message || disabled) return;
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="px-4 py-3 border-t border-slate-100 flex gap-2">
+      <input
+        id="chat-message"
+        type="text"
+        aria-label={t.chatInput.label}
+        value={text}
+        onChange={e => setText(e.target.value)}
+        disabled={disabled}
+        placeholder={disabled ? t.chatInput.placeholderDisabled : t.chatInput.placeholder}
+        className="flex-1 px-4 py-2 rounded-full border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200 disabled:bg-slate-50 disabled:cursor-not-allowed"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="px-4 py-2 rounded-full bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 active:scale-95 transition-all disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed"
+      >
+        {t.chatInput.send}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Citation, CourseSection } from '../types';
+import { sectionTitle } from '../services/courseSections';
+import { useI18n } from '../i18n';
+
+interface CitationChipsProps {
+  citations: Citation[];
+  sections: CourseSection[];
+  onSelect: (citation: Citation) => void;
+}
+
+export default function CitationChips({ citations, sections, onSelect }: CitationChipsProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-200 flex flex-wrap items-center gap-1">
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mr-1">{t.citations.sources}</span>
+      {citations.map(citation => {
+        const section = sections.find(s => s.id === citation.sectionId);
+        return (
+          <button
+            key={citation.sectionId}
+            onClick={() => onSelect(citation)}
+            title={citation.quote ? `“${citation.quote}”` : undefined}
+            className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-white text-indigo-600 border border-indigo-100 hover:bg-indigo-50 transition-colors"
+          >
+            § {section ? sectionTitle(section, t.citations) : citation.sectionId}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
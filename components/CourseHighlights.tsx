@@ -0,0 +1,56 @@
+import React from 'react';
+import { CourseHighlights as CourseHighlightsData } from '../types';
+import { useI18n } from '../i18n';
+
+interface CourseHighlightsProps {
+  highlights: CourseHighlightsData;
+  children?: React.ReactNode;
+}
+
+export default function CourseHighlights({ highlights, children }: CourseHighlightsProps) {
+  const { t } = useI18n();
+
+  return (
+    <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 lg:col-span-1">
+      <h2 className="text-xl font-semibold mb-4 text-slate-800 flex items-center gap-2">
+         <svg className="w-5 h-5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.246.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+         {t.highlights.heading}
+      </h2>
+      <div className="space-y-4 text-sm text-slate-600">
+        <div>
+          <p className="font-bold text-slate-800">{t.highlights.title}</p>
+          <p>{highlights.title}</p>
+        </div>
+        {highlights.duration && (
+          <div>
+            <p className="font-bold text-slate-800">{t.highlights.duration}</p>
+            <p>{highlights.duration}</p>
+          </div>
+        )}
+        {highlights.tools.length > 0 && (
+          <div>
+            <p className="font-bold text-slate-800">{t.highlights.tools}</p>
+            <p>{highlights.tools.join(', ')}</p>
+          </div>
+        )}
+        {highlights.evaluation.length > 0 && (
+          <div className="pt-4 border-t border-slate-100">
+            <p className="font-bold text-slate-800 mb-2">{t.highlights.evaluation}</p>
+            {highlights.evaluation.map((item, idx) => (
+              <React.Fragment key={idx}>
+                <div className="flex justify-between items-center mb-1">
+                  <span>{item.label}</span>
+                  <span className="font-medium">{item.weight}%</span>
+                </div>
+                <div className={`w-full bg-slate-100 rounded-full h-1.5 ${idx < highlights.evaluation.length - 1 ? 'mb-3' : ''}`}>
+                  <div className="bg-indigo-500 h-1.5 rounded-full" style={{ width: `${Math.min(item.weight, 100)}%` }}></div>
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+        {children}
+      </div>
+    </section>
+  );
+}
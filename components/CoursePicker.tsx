@@ -0,0 +1,30 @@
+import React from 'react';
+import { CourseConfig } from '../types';
+import { useI18n } from '../i18n';
+
+interface CoursePickerProps {
+  courses: CourseConfig[];
+  selectedId: string;
+  onSelect: (courseId: string) => void;
+}
+
+export default function CoursePicker({ courses, selectedId, onSelect }: CoursePickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <label className="flex flex-col items-center gap-1 w-full max-w-md">
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t.coursePicker.label}</span>
+      <select
+        value={selectedId}
+        onChange={e => onSelect(e.target.value)}
+        className="w-full px-3 py-2 rounded-xl border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+      >
+        {courses.map(course => (
+          <option key={course.id} value={course.id}>
+            {course.highlights.title}{course.document ? ` (${course.document.fileName})` : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
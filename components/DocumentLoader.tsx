@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { CourseDocument } from '../types';
+import { loadCourseDocument } from '../services/courseDocument';
+import { DocumentError, SUPPORTED_DOCUMENT_TYPES } from '../services/documentParser';
+import { useI18n } from '../i18n';
+
+interface DocumentLoaderProps {
+  document: CourseDocument | null;
+  // Citable sections of the course built from the document
+  sectionCount: number;
+  sessionActive: boolean;
+  onLoad: (document: CourseDocument) => void;
+  onRemove: () => void;
+}
+
+export default function DocumentLoader({ document, sectionCount, sessionActive, onLoad, onRemove }: DocumentLoaderProps) {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      onLoad(await loadCourseDocument(file));
+    } catch (err) {
+      console.error('Failed to load course document:', err);
+      setError(err instanceof DocumentError ? t.documentLoader.errors[err.code](err.detail) : t.documentLoader.readFailed);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100">
+      <p className="font-bold text-slate-800 mb-2">{t.documentLoader.heading}</p>
+      <p className="text-xs text-slate-500 mb-3 break-all">
+        {document ? t.documentLoader.sections(document.fileName, sectionCount) : t.documentLoader.builtIn}
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={SUPPORTED_DOCUMENT_TYPES}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isLoading}
+          className="px-3 py-1.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-600 hover:bg-indigo-100 border border-indigo-100 transition-all active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {isLoading ? t.documentLoader.reading : t.documentLoader.add}
+        </button>
+        {document && (
+          <button
+            onClick={onRemove}
+            className="px-3 py-1.5 rounded-full text-xs font-medium text-slate-500 hover:text-red-500 transition-colors"
+          >
+            {t.documentLoader.remove}
+          </button>
+        )}
+      </div>
+      {sessionActive && (
+        <p className="text-[11px] text-slate-400 mt-2">{t.documentLoader.appliesNextSession}</p>
+      )}
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef } from 'react';
+import { Citation, CourseSection } from '../types';
+import { sectionTitle } from '../services/courseSections';
+import { useI18n } from '../i18n';
+
+interface DocumentViewerProps {
+  title: string;
+  sections: CourseSection[];
+  target: Citation;
+  onClose: () => void;
+}
+
+// Wraps the quoted passage in a <mark>; quotes that don't match verbatim leave the text as is
+function highlightQuote(text: string, quote: string | undefined): React.ReactNode {
+  const words = quote?.trim().split(/\s+/).filter(Boolean) ?? [];
+  if (words.length === 0) return text;
+  // Line breaks in the document may fall anywhere inside the quote
+  const pattern = new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'i');
+  const match = text.match(pattern);
+  if (!match || match.index === undefined) return text;
+  const end = match.index + match[0].length;
+  return (
+    <>
+      {text.slice(0, match.index)}
+      <mark className="bg-amber-200 rounded px-0.5">{match[0]}</mark>
+      {text.slice(end)}
+    </>
+  );
+}
+
+export default function DocumentViewer({ title, sections, target, onClose }: DocumentViewerProps) {
+  const { t } = useI18n();
+  const sectionRefs = useRef<Record<string, HTMLElement | null>>({});
+
+  useEffect(() => {
+    sectionRefs.current[target.sectionId]?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+  }, [target]);
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-slate-200 lg:col-span-1 flex flex-col max-h-[calc(100vh-4rem)] lg:sticky lg:top-8">
+      <div className="p-4 border-b border-slate-100 flex justify-between items-start gap-3">
+        <div className="min-w-0">
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t.citations.viewerHeading}</p>
+          <h2 className="text-sm font-semibold text-slate-800 truncate">{title}</h2>
+        </div>
+        <button onClick={onClose} className="text-xs text-slate-400 hover:text-slate-600 whitespace-nowrap">
+          {t.citations.close}
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm text-slate-600">
+        {sections.map(section => {
+          const isTarget = section.id === target.sectionId;
+          return (
+            <article
+              key={section.id}
+              ref={el => { sectionRefs.current[section.id] = el; }}
+              className={`scroll-mt-2 rounded-xl p-3 transition-colors ${isTarget ? 'bg-indigo-50 ring-1 ring-indigo-200' : ''}`}
+            >
+              <p className="font-bold text-slate-800 mb-1">
+                {sectionTitle(section, t.citations)} <span className="font-mono text-[10px] text-slate-400">[{section.id}]</span>
+              </p>
+              <p className="whitespace-pre-wrap leading-relaxed">
+                {isTarget ? highlightQuote(section.text, target.quote) : section.text}
+              </p>
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { TranscriptExportFormat, TranscriptExportMetadata, TranscriptionEntry } from '../types';
+import { exportTranscript } from '../services/transcriptExport';
+import { useI18n } from '../i18n';
+
+interface ExportMenuProps {
+  meta: TranscriptExportMetadata;
+  entries: TranscriptionEntry[];
+}
+
+const EXPORT_FORMATS: TranscriptExportFormat[] = ['markdown', 'pdf', 'json', 'srt', 'vtt'];
+
+export default function ExportMenu({ meta, entries }: ExportMenuProps) {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: TranscriptExportFormat) => {
+    setIsOpen(false);
+    setError(null);
+    try {
+      exportTranscript(format, meta, entries, t.exportMenu, locale);
+    } catch (err) {
+      console.error('Failed to export transcript:', err);
+      setError(err instanceof Error ? err.message : t.exportMenu.failed);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={entries.length === 0}
+        className="text-xs text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t.exportMenu.button}
+      </button>
+      {isOpen && (
+        <ul className="absolute right-0 mt-2 w-44 bg-white border border-slate-200 rounded-xl shadow-lg z-10 py-1">
+          {EXPORT_FORMATS.map(format => (
+            <li key={format}>
+              <button
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-3 py-1.5 text-xs text-slate-600 hover:bg-indigo-50 hover:text-indigo-700"
+              >
+                {t.exportMenu.formats[format]}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="absolute right-0 mt-1 w-56 text-[11px] text-red-600 text-right">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import { LOCALES, useI18n } from '../i18n';
+
+interface LanguageSwitcherProps {
+  sessionActive: boolean;
+}
+
+export default function LanguageSwitcher({ sessionActive }: LanguageSwitcherProps) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div
+      role="group"
+      aria-label={t.language.label}
+      title={sessionActive ? t.language.appliesNextSession : undefined}
+      className="flex rounded-full border border-slate-200 bg-white p-0.5 text-xs font-semibold"
+    >
+      {LOCALES.map(option => (
+        <button
+          key={option.locale}
+          lang={option.locale}
+          title={option.name}
+          aria-pressed={locale === option.locale}
+          onClick={() => setLocale(option.locale)}
+          className={`px-2.5 py-0.5 rounded-full transition-colors ${
+            locale === option.locale ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {option.short}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { QuizAnswer } from '../types';
+import { QUIZ_MAX_SCORE, scoreByModule } from '../services/quiz';
+import { useI18n } from '../i18n';
+
+interface QuizScoreboardProps {
+  modules: string[];
+  answers: QuizAnswer[];
+  summary: string | null;
+}
+
+export default function QuizScoreboard({ modules, answers, summary }: QuizScoreboardProps) {
+  const { t } = useI18n();
+  const scores = scoreByModule(answers, modules);
+  const total = answers.reduce((sum, a) => sum + a.score, 0);
+  const lastAnswer = answers[answers.length - 1];
+
+  return (
+    <div className="pt-4 border-t border-slate-100">
+      <div className="flex justify-between items-baseline mb-2">
+        <p className="font-bold text-slate-800">{t.quiz.heading}</p>
+        {answers.length > 0 && (
+          <span className="text-xs font-medium text-indigo-600">
+            {total}/{answers.length * QUIZ_MAX_SCORE}
+          </span>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {scores.map(score => (
+          <li key={score.module}>
+            <div className="flex justify-between items-center text-xs mb-1">
+              <span className="truncate pr-2">{score.module}</span>
+              <span className="font-medium whitespace-nowrap">
+                {score.averageScore === null ? '—' : `${score.averageScore.toFixed(1)}/${QUIZ_MAX_SCORE}`}
+                <span className="text-slate-400"> · {score.answered}</span>
+              </span>
+            </div>
+            <div className="w-full bg-slate-100 rounded-full h-1.5">
+              <div
+                className={`h-1.5 rounded-full ${
+                  score.averageScore === null ? '' :
+                  score.averageScore >= 7 ? 'bg-green-500' :
+                  score.averageScore >= 4 ? 'bg-amber-400' : 'bg-red-400'
+                }`}
+                style={{ width: `${((score.averageScore ?? 0) / QUIZ_MAX_SCORE) * 100}%` }}
+              ></div>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {lastAnswer && !summary && (
+        <p className="mt-3 text-xs text-slate-500 italic">{t.quiz.lastFeedback} {lastAnswer.feedback}</p>
+      )}
+      {summary && (
+        <div className="mt-3 p-3 rounded-xl bg-indigo-50 border border-indigo-100 text-xs text-slate-700">
+          <p className="font-semibold text-indigo-700 mb-1">{t.quiz.finalSummary}</p>
+          <p className="whitespace-pre-wrap">{summary}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { SessionErrorKind } from '../types';
+import { useI18n } from '../i18n';
+
+interface SessionErrorNoticeProps {
+  kind: SessionErrorKind;
+  onRetry: () => void;
+  // Offered when the microphone is the problem
+  onUseText: () => void;
+}
+
+export default function SessionErrorNotice({ kind, onRetry, onUseText }: SessionErrorNoticeProps) {
+  const { t } = useI18n();
+  const error = t.app.errors[kind];
+  const isMicProblem = kind === 'mic-denied' || kind === 'mic-unavailable';
+
+  return (
+    <div role="alert" className="w-full p-4 rounded-xl border border-red-200 bg-red-50 text-center space-y-3">
+      <p className="text-sm font-semibold text-red-700">{error.title}</p>
+      <p className="text-xs text-red-600">{error.description}</p>
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          onClick={onRetry}
+          className="px-4 py-1.5 rounded-full text-xs font-medium bg-white border border-red-200 text-red-700 hover:bg-red-100 transition-colors"
+        >
+          {t.app.tryAgain}
+        </button>
+        {isMicProblem && (
+          <button
+            onClick={onUseText}
+            className="px-4 py-1.5 rounded-full text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+          >
+            {t.app.continueInText}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
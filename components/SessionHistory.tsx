@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { Locale, TutorSession } from '../types';
+import { searchSessions } from '../services/sessionStore';
+import { useI18n } from '../i18n';
+import { useDialog } from '../utils/dialog';
+
+interface SessionHistoryProps {
+  sessions: TutorSession[];
+  activeSessionId: string | null;
+  canResume: boolean;
+  onResume: (session: TutorSession) => void;
+  onDelete: (session: TutorSession) => void;
+  onClose: () => void;
+}
+
+const formatDate = (date: Date, locale: Locale) =>
+  date.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function SessionHistory({ sessions, activeSessionId, canResume, onResume, onDelete, onClose }: SessionHistoryProps) {
+  const { locale, t } = useI18n();
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+  const dialogRef = useDialog<HTMLElement>(onClose);
+
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      <aside
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-heading"
+        className="w-full max-w-sm h-full bg-white shadow-xl border-r border-slate-200 flex flex-col"
+      >
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 id="history-heading" className="text-lg font-semibold text-slate-800">{t.history.heading}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-sm">{t.history.close}</button>
+        </div>
+        <div className="p-4 border-b border-slate-100">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t.history.search}
+            className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+        </div>
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {results.length === 0 && (
+            <li className="p-6 text-center text-sm text-slate-400">
+              {sessions.length === 0 ? t.history.empty : t.history.noMatches}
+            </li>
+          )}
+          {results.map(({ session, snippet }) => (
+            <li key={session.id} className={`p-4 ${session.id === activeSessionId ? 'bg-indigo-50' : ''}`}>
+              <p className="text-sm font-medium text-slate-800 truncate">{session.courseTitle}</p>
+              <p className="text-xs text-slate-500">
+                {formatDate(session.startedAt, locale)} · {t.history.messages(session.entries.length)}
+              </p>
+              {snippet && <p className="mt-2 text-xs text-slate-600 italic line-clamp-3">{snippet}</p>}
+              <div className="mt-2 flex gap-3">
+                <button
+                  onClick={() => onResume(session)}
+                  disabled={!canResume || session.id === activeSessionId}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:text-slate-300 disabled:cursor-not-allowed"
+                >
+                  {t.history.resume}
+                </button>
+                <button
+                  onClick={() => onDelete(session)}
+                  disabled={session.id === activeSessionId}
+                  className="text-xs text-slate-400 hover:text-red-500 disabled:text-slate-300 disabled:cursor-not-allowed"
+                >
+                  {t.history.delete}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+      <div className="flex-1 bg-slate-900/20" onClick={onClose}></div>
+    </div>
+  );
+}
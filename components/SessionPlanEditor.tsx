@@ -0,0 +1,179 @@
+import React from 'react';
+import { SessionPlan, SessionPlanActivity } from '../types';
+import {
+  PLAN_DURATION_MINUTES,
+  createPlanActivity,
+  hasPlanContent,
+  planToMarkdown,
+  totalMinutes,
+} from '../services/sessionPlan';
+import { downloadFile } from '../services/transcriptExport';
+import { slugify } from '../utils/text';
+import { useI18n } from '../i18n';
+
+interface SessionPlanEditorProps {
+  plan: SessionPlan;
+  onChange: (plan: SessionPlan) => void;
+}
+
+const inputClassName = 'w-full px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200';
+const labelClassName = 'block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1';
+
+export default function SessionPlanEditor({ plan, onChange }: SessionPlanEditorProps) {
+  const { t } = useI18n();
+  const minutes = totalMinutes(plan);
+  const fileName = slugify(plan.title || t.plan.untitled);
+
+  const update = <K extends keyof SessionPlan>(key: K, value: SessionPlan[K]) => onChange({ ...plan, [key]: value });
+
+  const updateActivity = (id: string, changes: Partial<SessionPlanActivity>) =>
+    update('activities', plan.activities.map(a => (a.id === id ? { ...a, ...changes } : a)));
+
+  const moveActivity = (index: number, offset: number) => {
+    const activities = [...plan.activities];
+    const [moved] = activities.splice(index, 1);
+    activities.splice(index + offset, 0, moved);
+    update('activities', activities);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold text-slate-800">{t.plan.heading}</h2>
+        <div className="flex gap-3 text-xs">
+          <button
+            onClick={() => downloadFile(planToMarkdown(plan, t.plan), `${fileName}.md`, 'text/markdown;charset=utf-8')}
+            disabled={!hasPlanContent(plan)}
+            className="text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t.plan.exportMarkdown}
+          </button>
+          <button
+            onClick={() => downloadFile(JSON.stringify(plan, null, 2), `${fileName}.json`, 'application/json')}
+            disabled={!hasPlanContent(plan)}
+            className="text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t.plan.exportJson}
+          </button>
+        </div>
+      </div>
+
+      {!hasPlanContent(plan) && <p className="text-sm text-slate-400">{t.plan.empty}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="md:col-span-3">
+          <span className={labelClassName}>{t.plan.title}</span>
+          <input value={plan.title} onChange={e => update('title', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="md:col-span-2">
+          <span className={labelClassName}>{t.plan.subject}</span>
+          <input value={plan.subject} onChange={e => update('subject', e.target.value)} className={inputClassName} />
+        </label>
+        <label>
+          <span className={labelClassName}>{t.plan.gradeLevel}</span>
+          <input value={plan.gradeLevel} onChange={e => update('gradeLevel', e.target.value)} className={inputClassName} />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className={labelClassName}>{t.plan.goals}</span>
+        <textarea
+          value={plan.goals.join('\n')}
+          onChange={e => update('goals', e.target.value.split('\n'))}
+          onBlur={() => update('goals', plan.goals.map(g => g.trim()).filter(Boolean))}
+          placeholder={t.plan.goalsHint}
+          rows={Math.max(2, plan.goals.length)}
+          className={inputClassName}
+        />
+      </label>
+
+      <div>
+        <div className="flex justify-between items-baseline mb-2">
+          <span className={labelClassName}>{t.plan.activities}</span>
+          <span className={`text-xs font-medium ${minutes === PLAN_DURATION_MINUTES ? 'text-green-600' : 'text-amber-600'}`}>
+            {t.plan.total(minutes, PLAN_DURATION_MINUTES)}
+          </span>
+        </div>
+        <ol className="space-y-3">
+          {plan.activities.map((activity, i) => (
+            <li key={activity.id} className="p-3 rounded-xl border border-slate-100 bg-slate-50 space-y-2">
+              <div className="flex gap-2 items-center">
+                <span className="text-xs font-bold text-slate-400 w-5">{i + 1}.</span>
+                <input
+                  value={activity.title}
+                  onChange={e => updateActivity(activity.id, { title: e.target.value })}
+                  placeholder={t.plan.activityTitle}
+                  aria-label={t.plan.activityTitle}
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={activity.minutes}
+                  onChange={e => updateActivity(activity.id, { minutes: Math.max(0, Number(e.target.value) || 0) })}
+                  aria-label={t.plan.minutes}
+                  className={`${inputClassName} w-20`}
+                />
+                <span className="text-xs text-slate-400">{t.plan.minutes}</span>
+              </div>
+              <textarea
+                value={activity.description}
+                onChange={e => updateActivity(activity.id, { description: e.target.value })}
+                placeholder={t.plan.description}
+                aria-label={t.plan.description}
+                rows={2}
+                className={inputClassName}
+              />
+              <input
+                value={activity.aiTools.join(', ')}
+                onChange={e => updateActivity(activity.id, { aiTools: e.target.value.split(',').map(tool => tool.trimStart()) })}
+                onBlur={() => updateActivity(activity.id, { aiTools: activity.aiTools.map(tool => tool.trim()).filter(Boolean) })}
+                placeholder={t.plan.aiToolsHint}
+                aria-label={t.plan.aiTools}
+                className={inputClassName}
+              />
+              <div className="flex gap-3 text-xs">
+                <button
+                  onClick={() => moveActivity(i, -1)}
+                  disabled={i === 0}
+                  className="text-slate-400 hover:text-slate-600 disabled:text-slate-200 disabled:cursor-not-allowed"
+                >
+                  {t.plan.moveUp}
+                </button>
+                <button
+                  onClick={() => moveActivity(i, 1)}
+                  disabled={i === plan.activities.length - 1}
+                  className="text-slate-400 hover:text-slate-600 disabled:text-slate-200 disabled:cursor-not-allowed"
+                >
+                  {t.plan.moveDown}
+                </button>
+                <button
+                  onClick={() => update('activities', plan.activities.filter(a => a.id !== activity.id))}
+                  className="text-slate-400 hover:text-red-500"
+                >
+                  {t.plan.removeActivity}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+        <button
+          onClick={() => update('activities', [...plan.activities, createPlanActivity()])}
+          className="mt-3 px-3 py-1.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-600 hover:bg-indigo-100 border border-indigo-100 transition-all active:scale-95"
+        >
+          {t.plan.addActivity}
+        </button>
+      </div>
+
+      <label className="block">
+        <span className={labelClassName}>{t.plan.assessment}</span>
+        <textarea
+          value={plan.assessment}
+          onChange={e => update('assessment', e.target.value)}
+          rows={3}
+          className={inputClassName}
+        />
+      </label>
+    </div>
+  );
+}
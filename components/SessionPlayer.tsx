@@ -0,0 +1,46 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SessionRecording } from '../types';
+import { encodeWav } from '../services/audioRecording';
+import { downloadFile } from '../services/transcriptExport';
+import { useI18n } from '../i18n';
+
+interface SessionPlayerProps {
+  recording: SessionRecording;
+  fileName: string;
+  onTimeUpdate: (seconds: number | null) => void;
+}
+
+export default function SessionPlayer({ recording, fileName, onTimeUpdate }: SessionPlayerProps) {
+  const { t } = useI18n();
+  const wav = useMemo(() => encodeWav(recording.pcm, recording.sampleRate), [recording]);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(wav);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      onTimeUpdate(null);
+    };
+  }, [wav, onTimeUpdate]);
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-100 flex items-center gap-3 bg-amber-50/50">
+      {url && (
+        <audio
+          controls
+          src={url}
+          className="flex-1 h-8"
+          onTimeUpdate={e => onTimeUpdate(e.currentTarget.currentTime)}
+          onEnded={() => onTimeUpdate(null)}
+        />
+      )}
+      <button
+        onClick={() => downloadFile(wav, fileName, 'audio/wav')}
+        className="text-xs font-medium text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+      >
+        {t.player.download}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { UserSettings } from '../types';
+import { LIVE_MODELS, PREBUILT_VOICES } from '../constants';
+import { AudioDevices, canSelectOutputDevice, listAudioDevices } from '../services/audioDevices';
+import { PLAYBACK_RATE_RANGE } from '../services/settings';
+import { useI18n } from '../i18n';
+import { useDialog } from '../utils/dialog';
+
+interface SettingsPanelProps {
+  settings: UserSettings;
+  courseVoiceName: string;
+  onChange: (settings: UserSettings) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const fieldClassName = 'w-full px-3 py-2 rounded-xl border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200';
+const labelClassName = 'block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1';
+
+export default function SettingsPanel({ settings, courseVoiceName, onChange, onReset, onClose }: SettingsPanelProps) {
+  const { t } = useI18n();
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [error, setError] = useState<string | null>(null);
+  const dialogRef = useDialog<HTMLElement>(onClose);
+
+  useEffect(() => {
+    const refresh = () => {
+      listAudioDevices()
+        .then(setDevices)
+        .catch(err => {
+          console.error('Failed to list audio devices:', err);
+          setError(t.settings.devicesFailed);
+        });
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [t]);
+
+  const update = <K extends keyof UserSettings>(key: K, value: UserSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="flex-1 bg-slate-900/20" onClick={onClose}></div>
+      <aside
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-heading"
+        className="w-full max-w-sm h-full bg-white shadow-xl border-l border-slate-200 flex flex-col"
+      >
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 id="settings-heading" className="text-lg font-semibold text-slate-800">{t.settings.heading}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-sm">{t.settings.close}</button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <p className="text-xs text-slate-500">{t.settings.appliesNextSession}</p>
+
+          <label className="block">
+            <span className={labelClassName}>{t.settings.microphone}</span>
+            <select value={settings.inputDeviceId} onChange={e => update('inputDeviceId', e.target.value)} className={fieldClassName}>
+              <option value="">{t.settings.systemDefault}</option>
+              {devices.inputs.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || t.settings.unnamedInput(i + 1)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className={labelClassName}>{t.settings.speaker}</span>
+            <select
+              value={settings.outputDeviceId}
+              onChange={e => update('outputDeviceId', e.target.value)}
+              disabled={!canSelectOutputDevice()}
+              className={`${fieldClassName} disabled:bg-slate-50 disabled:cursor-not-allowed`}
+            >
+              <option value="">{t.settings.systemDefault}</option>
+              {devices.outputs.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || t.settings.unnamedOutput(i + 1)}</option>
+              ))}
+            </select>
+            {!canSelectOutputDevice() && <span className="block text-[11px] text-slate-400 mt-1">{t.settings.outputUnsupported}</span>}
+          </label>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="space-y-2 text-sm text-slate-600">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.echoCancellation}
+                onChange={e => update('echoCancellation', e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600"
+              />
+              {t.settings.echoCancellation}
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.noiseSuppression}
+                onChange={e => update('noiseSuppression', e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600"
+              />
+              {t.settings.noiseSuppression}
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.captions}
+                onChange={e => update('captions', e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600"
+              />
+              {t.settings.captions}
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={labelClassName}>{t.settings.voice}</span>
+            <select value={settings.voiceName} onChange={e => update('voiceName', e.target.value)} className={fieldClassName}>
+              <option value="">{t.settings.courseVoice(courseVoiceName)}</option>
+              {PREBUILT_VOICES.map(voice => (
+                <option key={voice} value={voice}>{voice}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className={labelClassName}>{t.settings.playbackRate} · {settings.playbackRate.toFixed(2)}×</span>
+            <input
+              type="range"
+              min={PLAYBACK_RATE_RANGE.min}
+              max={PLAYBACK_RATE_RANGE.max}
+              step={PLAYBACK_RATE_RANGE.step}
+              value={settings.playbackRate}
+              onChange={e => update('playbackRate', Number(e.target.value))}
+              className="w-full accent-indigo-600"
+            />
+          </label>
+
+          <label className="block">
+            <span className={labelClassName}>{t.settings.volume} · {Math.round(settings.volume * 100)}%</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={e => update('volume', Number(e.target.value))}
+              className="w-full accent-indigo-600"
+            />
+          </label>
+
+          <label className="block">
+            <span className={labelClassName}>{t.settings.model}</span>
+            <input
+              type="text"
+              list="live-models"
+              value={settings.modelName}
+              onChange={e => update('modelName', e.target.value)}
+              spellCheck={false}
+              className={`${fieldClassName} font-mono text-xs`}
+            />
+            <datalist id="live-models">
+              {LIVE_MODELS.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </label>
+        </div>
+        <div className="p-4 border-t border-slate-100">
+          <button onClick={onReset} className="text-xs text-slate-400 hover:text-red-500 transition-colors">
+            {t.settings.reset}
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+}
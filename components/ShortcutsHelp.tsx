@@ -0,0 +1,42 @@
+import React from 'react';
+import { SHORTCUTS } from '../services/shortcuts';
+import { useI18n } from '../i18n';
+import { useDialog } from '../utils/dialog';
+
+interface ShortcutsHelpProps {
+  onClose: () => void;
+}
+
+export default function ShortcutsHelp({ onClose }: ShortcutsHelpProps) {
+  const { t } = useI18n();
+  const dialogRef = useDialog<HTMLElement>(onClose);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20" onClick={onClose}></div>
+      <section
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-heading"
+        className="relative w-full max-w-sm bg-white rounded-2xl shadow-xl border border-slate-200"
+      >
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 id="shortcuts-heading" className="text-lg font-semibold text-slate-800">{t.app.shortcuts}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-sm">{t.settings.close}</button>
+        </div>
+        <dl className="p-4 space-y-2 text-sm">
+          {SHORTCUTS.map(shortcut => (
+            <div key={shortcut.action} className="flex justify-between gap-4">
+              <dt className="text-slate-600">{t.app.shortcutActions[shortcut.action]}</dt>
+              <dd>
+                <kbd className="px-2 py-0.5 rounded border border-slate-200 bg-slate-50 text-xs font-mono text-slate-700">{shortcut.keys}</kbd>
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p className="px-4 pb-4 text-xs text-slate-400">{t.app.holdSpaceShortcut}</p>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React, { useEffect, useRef } from 'react';
+
+interface VideoPreviewProps {
+  stream: MediaStream;
+  label: string;
+  mirrored: boolean;
+}
+
+export default function VideoPreview({ stream, label, mirrored }: VideoPreviewProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <figure className="relative w-full max-w-xs rounded-xl overflow-hidden border border-slate-200 bg-slate-900">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        aria-label={label}
+        className={`w-full max-h-48 object-contain ${mirrored ? '-scale-x-100' : ''}`}
+      />
+      <figcaption className="absolute top-2 left-2 flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-slate-900/70 text-[10px] font-bold text-white uppercase tracking-widest">
+        <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></span>
+        {label}
+      </figcaption>
+    </figure>
+  );
+}
@@ -1,3 +1,5 @@
+import { Locale, LocalizedQuickQuestions, SessionPlan } from './types';
+
 
 export const PDF_CONTEXT = `
 DOCUMENT TITLE: Inteligência Artificial Generativa versus Agentiva: Instrumentos para a Educação no Futuro
@@ -35,8 +37,11 @@ EVALUATION:
 - Final critical reflection report: 30%
 `;
 
-export const SYSTEM_INSTRUCTION = `
-You are an expert educational consultant and tutor for the training course "Inteligência Artificial Generativa versus Agentiva: Instrumentos para a Educação no Futuro".
+// Upper bound on document text sent with the system instruction
+export const MAX_CONTEXT_CHARS = 30000;
+
+export const buildSystemInstruction = (courseTitle: string, context: string) => `
+You are an expert educational consultant and tutor for the training course "${courseTitle}".
 Your role is to help teachers understand the course structure, objectives, and contents based on the provided PDF context.
 
 Rules:
@@ -44,10 +49,151 @@ Rules:
 2. If asked about the course details (duration, modules, evaluation), refer to the provided context.
 3. Use a helpful, conversational tone as this is a live voice interaction.
 4. Keep responses concise for audio fluidity.
-5. You can discuss Prompt Engineering, Agentic AI (n8n, automation), and tools like MagicSchool.ai.
+5. You can discuss the concepts and tools covered in the context, such as Prompt Engineering, Agentic AI and automation.
 
 PDF CONTEXT:
-${PDF_CONTEXT}
+${context}
+`;
+
+export const buildResumeInstruction = (transcriptSummary: string) => `
+
+RESUMED SESSION:
+The trainee is continuing an earlier conversation with you. This is what was discussed so far:
+${transcriptSummary}
+
+Pick up from where the conversation left off and do not repeat earlier explanations unless asked.
+`;
+
+export const CITATION_INSTRUCTION = `
+
+CITATIONS:
+The PDF context is split into sections, each starting with its ID in square brackets, e.g. [objectives].
+Whenever an answer draws on the course document, first call citeSources with the sections you are using and a short verbatim quote from each, then give the answer. Never read section IDs or brackets aloud.
+`;
+
+export const SCREEN_SHARE_INSTRUCTION = `
+
+SCREEN AND CAMERA:
+The trainee can share their screen or camera, for example an n8n workflow or a custom GPT they are building. When you receive video frames, refer to what is visible when it helps, and ask them to zoom in or scroll if something is too small to read. Do not describe the frames unprompted.
+`;
+
+export const buildQuizInstruction = (modules: string[]) => `
+
+QUIZ MODE:
+You are now examining the trainee on the course${modules.length > 0 ? ' modules listed below' : ''}.
+1. Greet the trainee briefly and ask one question at a time about a single module. Cover every module with about two questions each, unless the trainee asks to focus on one.
+2. After each answer, call recordAnswer with the module, the question, a short summary of the answer, a score from 0 to 10 and one sentence of feedback. Then say the feedback aloud and move on.
+3. When every module has been covered or the trainee asks to stop, call finishQuiz with an overall summary and read it out.
+${modules.length > 0 ? `\nMODULES:\n${modules.map((m, i) => `${i + 1}. ${m}`).join('\n')}\n` : ''}`;
+
+export const buildPlannerInstruction = (tools: string[], currentPlan: SessionPlan | null) => `
+
+MICROPROJECT PLANNER MODE:
+You are helping the trainee design the course's final microproject: a 2-hour (120-minute) session plan for their own students. The plan is shown to the trainee as an editable document that you fill in through function calls.
+1. Ask, one question at a time, for the subject, the grade level of the students and what they should learn. Call setPlanOverview as soon as you learn each of these, with a short title once the topic is clear.
+2. Propose a sequence of activities that adds up to 120 minutes and uses the course's AI tools where they fit${tools.length > 0 ? ` (${tools.join(', ')})` : ''}. Call setPlanActivities with the full list, then summarize it aloud briefly and ask what to change.
+3. Agree on how learning will be assessed and call setPlanAssessment.
+4. The trainee can edit the plan directly; every function response contains the current plan, so build on it rather than on what you proposed earlier. Keep the total at 120 minutes when making changes.
+${currentPlan ? `\nCURRENT PLAN:\n${JSON.stringify({ ...currentPlan, activities: currentPlan.activities.map(({ id, ...a }) => a) }, null, 2)}\n` : ''}`;
+
+export const DEFAULT_COURSE_ID = 'genai-agentic';
+
+export const DEFAULT_VOICE_NAME = 'Kore';
+
+export const PREBUILT_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const DEFAULT_QUICK_QUESTIONS: LocalizedQuickQuestions = {
+  'pt-PT': [
+    { text: "Quais são os principais objetivos?", icon: "🎯" },
+    { text: "Fala-me dos 5 módulos.", icon: "📚" },
+    { text: "Como vou ser avaliado?", icon: "📊" },
+    { text: "O que é a IA Agentiva?", icon: "🤖" },
+  ],
+  en: [
+    { text: "What are the main objectives?", icon: "🎯" },
+    { text: "Tell me about the 5 modules.", icon: "📚" },
+    { text: "How am I evaluated?", icon: "📊" },
+    { text: "What is Agentic AI?", icon: "🤖" },
+  ],
+};
+
+export const DOCUMENT_QUICK_QUESTIONS: LocalizedQuickQuestions = {
+  'pt-PT': [
+    { text: "Quais são os principais objetivos?", icon: "🎯" },
+    { text: "Resume os temas principais.", icon: "📚" },
+    { text: "Como vou ser avaliado?", icon: "📊" },
+    { text: "Que ferramentas vamos usar?", icon: "🛠️" },
+  ],
+  en: [
+    { text: "What are the main objectives?", icon: "🎯" },
+    { text: "Summarize the main topics.", icon: "📚" },
+    { text: "How am I evaluated?", icon: "📊" },
+    { text: "Which tools will we use?", icon: "🛠️" },
+  ],
+};
+
+export const QUIZ_QUICK_QUESTIONS: LocalizedQuickQuestions = {
+  'pt-PT': [
+    { text: "Começa o questionário.", icon: "📝" },
+    { text: "Faz-me perguntas sobre o módulo seguinte.", icon: "⏭️" },
+    { text: "Podes repetir a pergunta?", icon: "🔁" },
+    { text: "Termina o questionário e resume os meus resultados.", icon: "🏁" },
+  ],
+  en: [
+    { text: "Start the quiz.", icon: "📝" },
+    { text: "Quiz me on the next module.", icon: "⏭️" },
+    { text: "Can you repeat the question?", icon: "🔁" },
+    { text: "End the quiz and summarize my results.", icon: "🏁" },
+  ],
+};
+
+export const PLANNER_QUICK_QUESTIONS: LocalizedQuickQuestions = {
+  'pt-PT': [
+    { text: "Ajuda-me a planear a minha sessão de 2 horas.", icon: "🗂️" },
+    { text: "Sugere uma atividade com o MagicSchool.ai.", icon: "🪄" },
+    { text: "Como posso usar o n8n nesta sessão?", icon: "⚙️" },
+    { text: "Revê os tempos do meu plano.", icon: "⏱️" },
+  ],
+  en: [
+    { text: "Help me plan my 2-hour session.", icon: "🗂️" },
+    { text: "Suggest an activity with MagicSchool.ai.", icon: "🪄" },
+    { text: "How could I use n8n in this session?", icon: "⚙️" },
+    { text: "Review the timings of my plan.", icon: "⏱️" },
+  ],
+};
+
+// BCP-47 codes sent to the Live API for speech output and input transcription
+export const LIVE_LANGUAGE_CODES: Record<Locale, string> = {
+  'pt-PT': 'pt-PT',
+  en: 'en-US',
+};
+
+export const buildLanguageInstruction = (locale: Locale) => locale === 'pt-PT' ? `
+
+LANGUAGE:
+Always speak and write in European Portuguese (português de Portugal), with its spelling, vocabulary and forms of address, never Brazilian Portuguese. Only switch language if the trainee explicitly asks you to.
+` : `
+
+LANGUAGE:
+Always speak and write in English, even though the course material is in Portuguese. Keep Portuguese module and tool names as they are when you quote them. Only switch language if the trainee explicitly asks you to.
 `;
 
+// Served by server/index.ts (proxied by Vite in development)
+export const LIVE_TOKEN_ENDPOINT = '/api/live-token';
+
 export const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+// Native audio models cannot reply in text, so text-only sessions use this one instead
+export const TEXT_MODEL_NAME = 'gemini-live-2.5-flash-preview';
+
+// Offered in the settings panel; any other Live model name can be typed in
+export const LIVE_MODELS = [
+  MODEL_NAME,
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-live-2.5-flash-preview',
+];
+
+// Reconnection backoff after the Live connection drops: 1s, 2s, 4s... capped at 30s
+export const MAX_RECONNECT_ATTEMPTS = 6;
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 30000;
@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { MESSAGES, Messages } from './messages';
+
+const STORAGE_KEY = 'tutor-voz.locale';
+
+export const LOCALES: { locale: Locale; short: string; name: string }[] = [
+  { locale: 'pt-PT', short: 'PT', name: 'Português (Portugal)' },
+  { locale: 'en', short: 'EN', name: 'English' },
+];
+
+function isLocale(value: string | null): value is Locale {
+  return LOCALES.some(l => l.locale === value);
+}
+
+// A stored choice wins; otherwise English browsers get English and everyone else the course language
+function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be unavailable (e.g. privacy mode)
+  }
+  return navigator.language.toLowerCase().startsWith('en') ? 'en' : 'pt-PT';
+}
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocale] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      localStorage.setItem(STORAGE_KEY, locale);
+    } catch (err) {
+      console.warn('Could not persist language:', err);
+    }
+  }, [locale]);
+
+  const value = useMemo(() => ({ locale, setLocale, t: MESSAGES[locale] }), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside I18nProvider');
+  return context;
+}
@@ -0,0 +1,495 @@
+import { ConnectionState, DocumentErrorCode, Locale, QuestionStatus, SessionErrorKind, SpeakingState, TranscriptExportFormat } from '../types';
+import { ShortcutAction } from '../services/shortcuts';
+
+const en = {
+  app: {
+    title: 'AI Course Tutor',
+    connectionStates: {
+      [ConnectionState.DISCONNECTED]: 'Disconnected',
+      [ConnectionState.CONNECTING]: 'Connecting',
+      [ConnectionState.CONNECTED]: 'Connected',
+      [ConnectionState.RECONNECTING]: 'Reconnecting',
+      [ConnectionState.ERROR]: 'Error',
+    } as Record<ConnectionState, string>,
+    history: (count: number) => `History (${count})`,
+    conversationHistory: 'Live Conversation History',
+    clear: 'Clear',
+    emptyTranscript: 'Start the conversation to see transcripts',
+    quickQuestions: 'Quick Questions',
+    recordAudio: 'Record session audio',
+    tutorMode: 'Tutor',
+    quizMode: 'Quiz me',
+    plannerMode: 'Plan microproject',
+    voiceActivity: 'Voice detection',
+    pushToTalk: 'Push-to-talk',
+    textOnly: 'Text only',
+    sessionType: 'Session type',
+    inputType: 'How you talk to the tutor',
+    startSession: 'Start Tutoring Session',
+    startTextSession: 'Start Text Session',
+    textSessionActive: 'Text session · type your questions below',
+    you: 'You',
+    tutor: 'Tutor',
+    captions: 'Captions',
+    shortcuts: 'Keyboard shortcuts',
+    shortcutActions: {
+      'toggle-session': 'Start or stop the session',
+      'toggle-mute': 'Mute or unmute the mic',
+      'toggle-captions': 'Show or hide captions',
+      'focus-message': 'Type a message',
+      'show-shortcuts': 'Show these shortcuts',
+    } as Record<ShortcutAction, string>,
+    holdSpaceShortcut: 'Hold Space to talk in push-to-talk mode. Escape closes panels.',
+    errors: {
+      'mic-denied': {
+        title: 'Microphone access was blocked',
+        description: 'Allow the microphone for this site in your browser (usually the icon in the address bar), then try again. You can also continue without a microphone.',
+      },
+      'mic-unavailable': {
+        title: 'No microphone available',
+        description: 'No working microphone was found, or another app is using it. Check the device in Settings, or continue without a microphone.',
+      },
+      api: {
+        title: 'Could not reach the tutor',
+        description: 'The token server or the Live API did not respond. Check that the server is running and your connection is up, then try again.',
+      },
+      'connection-lost': {
+        title: 'The connection was lost',
+        description: 'Reconnecting failed several times. Your transcript is saved; start the session again to continue.',
+      },
+    } as Record<SessionErrorKind, { title: string; description: string }>,
+    tryAgain: 'Try again',
+    continueInText: 'Continue in text mode',
+    reconnectingIn: (seconds: number) => `Connection lost. Reconnecting in ${seconds}s...`,
+    reconnecting: 'Reconnecting...',
+    reconnectAttempt: (attempt: number, max: number) => `Attempt ${attempt} of ${max} · your transcript is kept`,
+    retryNow: 'Retry now',
+    speakingStates: {
+      listening: 'AI is listening...',
+      'user-speaking': 'You are speaking',
+      'model-speaking': 'Tutor is speaking',
+      interrupted: 'Interrupted',
+    } as Record<SpeakingState, string>,
+    micLevel: 'Mic',
+    tutorLevel: 'Tutor',
+    mute: 'Mute mic',
+    unmute: 'Unmute mic',
+    micMuted: 'Microphone muted',
+    talking: 'Talking...',
+    holdToTalk: 'Hold to talk',
+    orHoldSpace: 'or hold Space',
+    shareScreen: 'Share screen',
+    stopScreenShare: 'Stop sharing',
+    camera: 'Camera',
+    stopCamera: 'Stop camera',
+    sharingScreen: 'Sharing screen',
+    sharingCamera: 'Camera on',
+    stopSession: 'Stop Session',
+    poweredBy: 'Powered by Gemini 2.5 Native Audio',
+  },
+  language: {
+    label: 'Language',
+    appliesNextSession: 'The tutor switches language at the next session',
+  },
+  chatInput: {
+    placeholder: 'Type a message...',
+    placeholderDisabled: 'Start a session to type a message',
+    label: 'Message to the tutor',
+    send: 'Send',
+  },
+  highlights: {
+    heading: 'Course Highlights',
+    title: 'Title',
+    duration: 'Duration',
+    tools: 'Key Tools',
+    evaluation: 'Evaluation Breakdown',
+  },
+  coursePicker: {
+    label: 'Course',
+  },
+  documentLoader: {
+    heading: 'Course Document',
+    sections: (fileName: string, count: number) => `${fileName} (${count} sections)`,
+    builtIn: 'Built-in course summary',
+    reading: 'Reading...',
+    add: 'Add course from PDF / DOCX / Markdown',
+    remove: 'Remove course',
+    appliesNextSession: 'Changes apply to the next session.',
+    readFailed: 'Could not read this document.',
+    errors: {
+      'unsupported-type': (extension: string) => `Unsupported document type ".${extension}". Use PDF, DOCX or Markdown.`,
+      'no-text': (fileName: string) => `No readable text found in "${fileName}".`,
+    } as Record<DocumentErrorCode, (detail: string) => string>,
+  },
+  exportMenu: {
+    button: 'Export',
+    failed: 'Export failed.',
+    trainee: 'Trainee',
+    tutor: 'Tutor',
+    sessionStarted: 'Session started',
+    sessionEnded: 'Session ended',
+    messages: 'Messages',
+    sessionId: 'Session ID',
+    popupBlocked: 'The print window was blocked. Allow pop-ups to export as PDF.',
+    formats: {
+      markdown: 'Markdown (.md)',
+      pdf: 'Printable PDF',
+      json: 'JSON (.json)',
+      srt: 'Captions (.srt)',
+      vtt: 'Captions (.vtt)',
+    } as Record<TranscriptExportFormat, string>,
+  },
+  quiz: {
+    heading: 'Quiz Scoreboard',
+    lastFeedback: 'Last feedback:',
+    finalSummary: 'Final summary',
+  },
+  history: {
+    heading: 'Past Sessions',
+    close: 'Close',
+    search: 'Search transcripts...',
+    empty: 'No saved sessions yet',
+    noMatches: 'No sessions match your search',
+    messages: (count: number) => `${count} ${count === 1 ? 'message' : 'messages'}`,
+    resume: 'Resume',
+    delete: 'Delete',
+  },
+  player: {
+    download: 'Download WAV',
+  },
+  plan: {
+    heading: 'Microproject: session plan',
+    empty: 'Tell the tutor about your subject and students and the plan will fill in here.',
+    untitled: 'Untitled session plan',
+    title: 'Title',
+    subject: 'Subject',
+    gradeLevel: 'Grade level',
+    duration: 'Duration',
+    goals: 'Goals',
+    goalsHint: 'One goal per line',
+    activities: 'Activities',
+    activityTitle: 'Activity',
+    minutes: 'min',
+    description: 'Description',
+    aiTools: 'AI tools',
+    aiToolsHint: 'Comma-separated, e.g. MagicSchool.ai, n8n',
+    addActivity: 'Add activity',
+    removeActivity: 'Remove',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    assessment: 'Assessment',
+    total: (minutes: number, target: number) => `${minutes} of ${target} min`,
+    exportMarkdown: 'Export Markdown',
+    exportJson: 'Export JSON',
+  },
+  citations: {
+    sources: 'Sources',
+    viewerHeading: 'Source document',
+    close: 'Back to highlights',
+    overview: 'Overview',
+    module: (number: string, name: string) => `Module ${number}: ${name}`,
+  },
+  settings: {
+    button: 'Settings',
+    heading: 'Settings',
+    close: 'Close',
+    appliesNextSession: 'Changes apply the next time a session connects.',
+    microphone: 'Microphone',
+    speaker: 'Speaker',
+    systemDefault: 'System default',
+    unnamedInput: (n: number) => `Microphone ${n}`,
+    unnamedOutput: (n: number) => `Speaker ${n}`,
+    outputUnsupported: 'This browser always plays through the default speaker.',
+    devicesFailed: 'Could not list audio devices.',
+    voice: 'Tutor voice',
+    courseVoice: (name: string) => `Course default (${name})`,
+    playbackRate: 'Playback speed',
+    volume: 'Volume',
+    echoCancellation: 'Echo cancellation',
+    noiseSuppression: 'Noise suppression',
+    model: 'Model',
+    captions: 'Show live captions of the tutor',
+    reset: 'Restore defaults',
+  },
+  analytics: {
+    button: 'Analytics',
+    heading: 'Instructor analytics',
+    close: 'Close',
+    course: 'Course',
+    privacyNote: 'Computed in this browser from saved sessions. Emails, phone numbers, IDs and names are redacted.',
+    empty: 'No saved sessions for this course yet.',
+    sessions: 'Sessions',
+    totalTime: 'Total time',
+    averageTime: 'Average session',
+    medianTime: 'Median session',
+    minutes: (minutes: number) => `${Math.round(minutes)} min`,
+    topics: 'Questions by module',
+    module: 'Module',
+    questions: 'Questions',
+    quizAverage: 'Quiz average',
+    otherTopics: 'Other / unmatched',
+    needsAttention: 'Unanswered and low-confidence questions',
+    noIssues: 'Every question got a confident answer.',
+    statuses: {
+      answered: 'Answered',
+      unanswered: 'Unanswered',
+      'low-confidence': 'Low confidence',
+    } as Record<QuestionStatus, string>,
+    sessionLabel: (n: number) => `Session ${n}`,
+    quickQuestions: 'Quick-question clicks',
+    clicks: 'Clicks',
+    clickedSessions: 'Sessions',
+    exportSummary: 'Export summary CSV',
+    exportQuestions: 'Export questions CSV',
+  },
+};
+
+export type Messages = typeof en;
+
+const ptPT: Messages = {
+  app: {
+    title: 'Tutor de Curso com IA',
+    connectionStates: {
+      [ConnectionState.DISCONNECTED]: 'Desligado',
+      [ConnectionState.CONNECTING]: 'A ligar',
+      [ConnectionState.CONNECTED]: 'Ligado',
+      [ConnectionState.RECONNECTING]: 'A religar',
+      [ConnectionState.ERROR]: 'Erro',
+    },
+    history: (count: number) => `Histórico (${count})`,
+    conversationHistory: 'Conversa em direto',
+    clear: 'Limpar',
+    emptyTranscript: 'Inicie a conversa para ver as transcrições',
+    quickQuestions: 'Perguntas rápidas',
+    recordAudio: 'Gravar o áudio da sessão',
+    tutorMode: 'Tutor',
+    quizMode: 'Questionário',
+    plannerMode: 'Planear microprojeto',
+    voiceActivity: 'Deteção de voz',
+    pushToTalk: 'Premir para falar',
+    textOnly: 'Só texto',
+    sessionType: 'Tipo de sessão',
+    inputType: 'Como fala com o tutor',
+    startSession: 'Iniciar sessão de tutoria',
+    startTextSession: 'Iniciar sessão de texto',
+    textSessionActive: 'Sessão de texto · escreva as suas perguntas abaixo',
+    you: 'Você',
+    tutor: 'Tutor',
+    captions: 'Legendas',
+    shortcuts: 'Atalhos de teclado',
+    shortcutActions: {
+      'toggle-session': 'Iniciar ou terminar a sessão',
+      'toggle-mute': 'Silenciar ou ativar o microfone',
+      'toggle-captions': 'Mostrar ou ocultar legendas',
+      'focus-message': 'Escrever uma mensagem',
+      'show-shortcuts': 'Mostrar estes atalhos',
+    },
+    holdSpaceShortcut: 'No modo premir para falar, mantenha a barra de espaço premida. Escape fecha os painéis.',
+    errors: {
+      'mic-denied': {
+        title: 'O acesso ao microfone foi bloqueado',
+        description: 'Permita o microfone para este site no navegador (normalmente no ícone da barra de endereço) e tente novamente. Também pode continuar sem microfone.',
+      },
+      'mic-unavailable': {
+        title: 'Nenhum microfone disponível',
+        description: 'Não foi encontrado nenhum microfone a funcionar, ou outra aplicação está a usá-lo. Verifique o dispositivo nas Definições ou continue sem microfone.',
+      },
+      api: {
+        title: 'Não foi possível contactar o tutor',
+        description: 'O servidor de tokens ou a Live API não responderam. Verifique se o servidor está a correr e se tem ligação, e tente novamente.',
+      },
+      'connection-lost': {
+        title: 'A ligação perdeu-se',
+        description: 'Não foi possível voltar a ligar após várias tentativas. A transcrição está guardada; inicie a sessão novamente para continuar.',
+      },
+    },
+    tryAgain: 'Tentar novamente',
+    continueInText: 'Continuar em modo de texto',
+    reconnectingIn: (seconds: number) => `Ligação perdida. A religar dentro de ${seconds}s...`,
+    reconnecting: 'A religar...',
+    reconnectAttempt: (attempt: number, max: number) => `Tentativa ${attempt} de ${max} · a transcrição é mantida`,
+    retryNow: 'Tentar agora',
+    speakingStates: {
+      listening: 'A IA está a ouvir...',
+      'user-speaking': 'Está a falar',
+      'model-speaking': 'O tutor está a falar',
+      interrupted: 'Interrompido',
+    },
+    micLevel: 'Microfone',
+    tutorLevel: 'Tutor',
+    mute: 'Silenciar microfone',
+    unmute: 'Ativar microfone',
+    micMuted: 'Microfone silenciado',
+    talking: 'A falar...',
+    holdToTalk: 'Mantenha premido para falar',
+    orHoldSpace: 'ou mantenha a barra de espaço premida',
+    shareScreen: 'Partilhar ecrã',
+    stopScreenShare: 'Parar partilha',
+    camera: 'Câmara',
+    stopCamera: 'Desligar câmara',
+    sharingScreen: 'A partilhar o ecrã',
+    sharingCamera: 'Câmara ligada',
+    stopSession: 'Terminar sessão',
+    poweredBy: 'Com tecnologia Gemini 2.5 Native Audio',
+  },
+  language: {
+    label: 'Idioma',
+    appliesNextSession: 'O tutor muda de idioma na próxima sessão',
+  },
+  chatInput: {
+    placeholder: 'Escreva uma mensagem...',
+    placeholderDisabled: 'Inicie uma sessão para escrever uma mensagem',
+    label: 'Mensagem para o tutor',
+    send: 'Enviar',
+  },
+  highlights: {
+    heading: 'Destaques do curso',
+    title: 'Título',
+    duration: 'Duração',
+    tools: 'Ferramentas principais',
+    evaluation: 'Distribuição da avaliação',
+  },
+  coursePicker: {
+    label: 'Curso',
+  },
+  documentLoader: {
+    heading: 'Documento do curso',
+    sections: (fileName: string, count: number) => `${fileName} (${count} ${count === 1 ? 'secção' : 'secções'})`,
+    builtIn: 'Resumo do curso incluído',
+    reading: 'A ler...',
+    add: 'Adicionar curso a partir de PDF / DOCX / Markdown',
+    remove: 'Remover curso',
+    appliesNextSession: 'As alterações aplicam-se à próxima sessão.',
+    readFailed: 'Não foi possível ler este documento.',
+    errors: {
+      'unsupported-type': (extension: string) => `Tipo de documento ".${extension}" não suportado. Use PDF, DOCX ou Markdown.`,
+      'no-text': (fileName: string) => `Não foi encontrado texto legível em "${fileName}".`,
+    },
+  },
+  exportMenu: {
+    button: 'Exportar',
+    failed: 'A exportação falhou.',
+    trainee: 'Formando',
+    tutor: 'Tutor',
+    sessionStarted: 'Início da sessão',
+    sessionEnded: 'Fim da sessão',
+    messages: 'Mensagens',
+    sessionId: 'ID da sessão',
+    popupBlocked: 'A janela de impressão foi bloqueada. Permita pop-ups para exportar em PDF.',
+    formats: {
+      markdown: 'Markdown (.md)',
+      pdf: 'PDF para imprimir',
+      json: 'JSON (.json)',
+      srt: 'Legendas (.srt)',
+      vtt: 'Legendas (.vtt)',
+    },
+  },
+  quiz: {
+    heading: 'Resultados do questionário',
+    lastFeedback: 'Último comentário:',
+    finalSummary: 'Resumo final',
+  },
+  history: {
+    heading: 'Sessões anteriores',
+    close: 'Fechar',
+    search: 'Pesquisar transcrições...',
+    empty: 'Ainda não há sessões guardadas',
+    noMatches: 'Nenhuma sessão corresponde à pesquisa',
+    messages: (count: number) => `${count} ${count === 1 ? 'mensagem' : 'mensagens'}`,
+    resume: 'Retomar',
+    delete: 'Eliminar',
+  },
+  player: {
+    download: 'Transferir WAV',
+  },
+  plan: {
+    heading: 'Microprojeto: plano de sessão',
+    empty: 'Fale ao tutor sobre a sua disciplina e os seus alunos e o plano será preenchido aqui.',
+    untitled: 'Plano de sessão sem título',
+    title: 'Título',
+    subject: 'Disciplina',
+    gradeLevel: 'Ano de escolaridade',
+    duration: 'Duração',
+    goals: 'Objetivos',
+    goalsHint: 'Um objetivo por linha',
+    activities: 'Atividades',
+    activityTitle: 'Atividade',
+    minutes: 'min',
+    description: 'Descrição',
+    aiTools: 'Ferramentas de IA',
+    aiToolsHint: 'Separadas por vírgulas, p. ex. MagicSchool.ai, n8n',
+    addActivity: 'Adicionar atividade',
+    removeActivity: 'Remover',
+    moveUp: 'Subir',
+    moveDown: 'Descer',
+    assessment: 'Avaliação',
+    total: (minutes: number, target: number) => `${minutes} de ${target} min`,
+    exportMarkdown: 'Exportar Markdown',
+    exportJson: 'Exportar JSON',
+  },
+  citations: {
+    sources: 'Fontes',
+    viewerHeading: 'Documento de origem',
+    close: 'Voltar aos destaques',
+    overview: 'Visão geral',
+    module: (number: string, name: string) => `Módulo ${number}: ${name}`,
+  },
+  settings: {
+    button: 'Definições',
+    heading: 'Definições',
+    close: 'Fechar',
+    appliesNextSession: 'As alterações aplicam-se da próxima vez que uma sessão ligar.',
+    microphone: 'Microfone',
+    speaker: 'Altifalante',
+    systemDefault: 'Predefinição do sistema',
+    unnamedInput: (n: number) => `Microfone ${n}`,
+    unnamedOutput: (n: number) => `Altifalante ${n}`,
+    outputUnsupported: 'Este navegador reproduz sempre no altifalante predefinido.',
+    devicesFailed: 'Não foi possível listar os dispositivos de áudio.',
+    voice: 'Voz do tutor',
+    courseVoice: (name: string) => `Predefinição do curso (${name})`,
+    playbackRate: 'Velocidade de reprodução',
+    volume: 'Volume',
+    echoCancellation: 'Cancelamento de eco',
+    noiseSuppression: 'Supressão de ruído',
+    model: 'Modelo',
+    captions: 'Mostrar legendas do tutor em tempo real',
+    reset: 'Repor predefinições',
+  },
+  analytics: {
+    button: 'Análise',
+    heading: 'Análise para formadores',
+    close: 'Fechar',
+    course: 'Curso',
+    privacyNote: 'Calculado neste navegador a partir das sessões guardadas. Emails, telefones, números de identificação e nomes são ocultados.',
+    empty: 'Ainda não há sessões guardadas para este curso.',
+    sessions: 'Sessões',
+    totalTime: 'Tempo total',
+    averageTime: 'Sessão média',
+    medianTime: 'Sessão mediana',
+    minutes: (minutes: number) => `${Math.round(minutes)} min`,
+    topics: 'Perguntas por módulo',
+    module: 'Módulo',
+    questions: 'Perguntas',
+    quizAverage: 'Média no quiz',
+    otherTopics: 'Outros / sem correspondência',
+    needsAttention: 'Perguntas sem resposta ou com resposta pouco segura',
+    noIssues: 'Todas as perguntas tiveram uma resposta segura.',
+    statuses: {
+      answered: 'Respondida',
+      unanswered: 'Sem resposta',
+      'low-confidence': 'Pouco segura',
+    } as Record<QuestionStatus, string>,
+    sessionLabel: (n: number) => `Sessão ${n}`,
+    quickQuestions: 'Cliques nas perguntas rápidas',
+    clicks: 'Cliques',
+    clickedSessions: 'Sessões',
+    exportSummary: 'Exportar resumo CSV',
+    exportQuestions: 'Exportar perguntas CSV',
+  },
+};
+
+export const MESSAGES: Record<Locale, Messages> = {
+  'pt-PT': ptPT,
+  en,
+};
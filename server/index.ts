@@ -0,0 +1,27 @@
+import { createTokenServer } from './tokenServer';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Variables may come from the environment instead
+}
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+const port = Number(process.env.TOKEN_SERVER_PORT ?? 8787);
+// Loopback only unless told otherwise; the server spends the API key for whoever reaches it
+const host = process.env.TOKEN_SERVER_HOST ?? '127.0.0.1';
+const server = createTokenServer({
+  apiKey,
+  upstreamBaseUrl: process.env.GEMINI_API_BASE_URL,
+  proxy: process.env.LIVE_PROXY === 'true',
+  allowedOrigins: (process.env.ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean),
+});
+
+server.listen(port, host, () => {
+  console.log(`Live token server listening on http://${host}:${port}`);
+});
@@ -0,0 +1,93 @@
+import http from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { isOriginAllowed } from './origins';
+
+const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com';
+const LIVE_METHOD_PATH = /^\/ws\/google\.ai\.generativelanguage\.\w+\.GenerativeService\.BidiGenerateContent$/;
+
+export interface LiveProxyOptions {
+  apiKey: string;
+  path: string;
+  upstreamBaseUrl?: string;
+  allowedOrigins: string[];
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+}
+
+// Close codes 1005/1006 are reserved for reporting and cannot be sent on the wire
+function toSendableCode(code: number) {
+  return code === 1005 || code === 1006 ? 1011 : code;
+}
+
+export function buildUpstreamUrl(methodPath: string, apiKey: string, upstreamBaseUrl: string = DEFAULT_UPSTREAM) {
+  const url = new URL(upstreamBaseUrl);
+  url.protocol = url.protocol === 'http:' ? 'ws:' : 'wss:';
+  url.pathname = url.pathname.replace(/\/$/, '') + methodPath;
+  url.search = new URLSearchParams({ key: apiKey }).toString();
+  return url.toString();
+}
+
+/**
+ * Relays Live API WebSockets from the browser to Gemini, adding the server's API key.
+ * The browser SDK is pointed at `<origin><path>` as its base URL, so the method path it
+ * appends is forwarded unchanged.
+ */
+export function attachLiveProxy(server: http.Server, options: LiveProxyOptions) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    // The SDK joins base URL and method path with a double slash
+    const pathname = url.pathname.replace(/\/{2,}/g, '/');
+    if (!pathname.startsWith(`${options.path}/`)) {
+      return rejectUpgrade(socket, 404, 'Not Found');
+    }
+    // Browsers do not apply CORS to WebSockets, so the origin check is all that keeps other pages off the key
+    if (!isOriginAllowed(req.headers.origin, options.allowedOrigins)) {
+      return rejectUpgrade(socket, 403, 'Forbidden');
+    }
+    const methodPath = pathname.slice(options.path.length);
+    if (!LIVE_METHOD_PATH.test(methodPath)) {
+      return rejectUpgrade(socket, 400, 'Bad Request');
+    }
+
+    wss.handleUpgrade(req, socket, head, client => {
+      const upstream = new WebSocket(buildUpstreamUrl(methodPath, options.apiKey, options.upstreamBaseUrl));
+      const pending: { data: RawData; isBinary: boolean }[] = [];
+
+      client.on('message', (data, isBinary) => {
+        if (upstream.readyState === WebSocket.OPEN) {
+          upstream.send(data, { binary: isBinary });
+        } else {
+          pending.push({ data, isBinary });
+        }
+      });
+      upstream.on('open', () => {
+        for (const { data, isBinary } of pending) upstream.send(data, { binary: isBinary });
+        pending.length = 0;
+      });
+      upstream.on('message', (data, isBinary) => {
+        if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+      });
+
+      client.on('close', (code, reason) => {
+        if (upstream.readyState === WebSocket.OPEN) upstream.close(toSendableCode(code), reason);
+        else upstream.terminate();
+      });
+      upstream.on('close', (code, reason) => {
+        if (client.readyState === WebSocket.OPEN) client.close(toSendableCode(code), reason);
+      });
+      upstream.on('error', err => {
+        console.error('Live proxy upstream error:', err.message);
+        if (client.readyState === WebSocket.OPEN) client.close(1011, 'Upstream error');
+      });
+      client.on('error', err => {
+        console.error('Live proxy client error:', err.message);
+        upstream.terminate();
+      });
+    });
+  });
+}
@@ -0,0 +1,14 @@
+// The Vite dev server (vite.config.ts), allowed when no origins are configured
+export const DEV_ORIGIN = 'http://localhost:3000';
+
+/**
+ * Whether a browser request may get a token or use the proxy. Requests without an Origin
+ * are refused: browsers always send one on POST and WebSocket requests, so a missing
+ * Origin means a script outside the browser. With no configured origins, only the dev
+ * server is allowed. The Host header is not trusted: a rebound domain sends a matching
+ * Origin and Host.
+ */
+export function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]) {
+  if (!origin) return false;
+  return allowedOrigins.length > 0 ? allowedOrigins.includes(origin) : origin === DEV_ORIGIN;
+}
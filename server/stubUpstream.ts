@@ -0,0 +1,57 @@
+import http from 'node:http';
+import { WebSocketServer } from 'ws';
+
+/**
+ * Minimal stand-in for the Gemini endpoints the token server talks to: it mints fake
+ * ephemeral tokens and accepts Live WebSockets, answering the setup message with
+ * `setupComplete`. Point the token server at it with GEMINI_API_BASE_URL.
+ */
+export function createStubUpstream(expectedApiKey: string): http.Server {
+  let issued = 0;
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method === 'POST' && url.pathname.endsWith('/auth_tokens')) {
+      if (req.headers['x-goog-api-key'] !== expectedApiKey) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ error: { code: 401, message: 'Invalid API key' } }));
+      }
+      issued += 1;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      return res.end(JSON.stringify({ name: `auth_tokens/stub-${issued}` }));
+    }
+    res.writeHead(404);
+    res.end();
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const credential = url.searchParams.get('key') ?? url.searchParams.get('access_token');
+    if (credential !== expectedApiKey && !credential?.startsWith('auth_tokens/stub-')) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, ws => {
+      ws.on('message', data => {
+        const message = JSON.parse(data.toString());
+        if (message.setup) ws.send(JSON.stringify({ setupComplete: {} }));
+      });
+    });
+  });
+
+  return server;
+}
+
+if (process.argv[1]?.endsWith('stubUpstream.ts')) {
+  try {
+    // Accept the same key the token server reads
+    process.loadEnvFile('.env.local');
+  } catch {
+    // Falls back to the placeholder key below
+  }
+  const port = Number(process.env.STUB_PORT ?? 8788);
+  createStubUpstream(process.env.GEMINI_API_KEY ?? 'stub-key').listen(port, () => {
+    console.log(`Stub Gemini endpoint listening on http://localhost:${port}`);
+  });
+}
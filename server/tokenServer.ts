@@ -0,0 +1,103 @@
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { LiveTokenResponse } from '../types';
+import { attachLiveProxy } from './liveProxy';
+import { isOriginAllowed } from './origins';
+
+export const TOKEN_PATH = '/api/live-token';
+export const PROXY_PATH = '/live-proxy';
+
+// Tokens must open their session within a minute and expire after half an hour
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+
+export interface TokenServerOptions {
+  apiKey: string;
+  // Base URL of the Gemini API; point it at a stub server in development and tests
+  upstreamBaseUrl?: string;
+  // When set the browser connects through this server instead of directly to Gemini
+  proxy?: boolean;
+  // Origins allowed to request tokens or use the proxy; empty allows only the dev server
+  allowedOrigins?: string[];
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, origin?: string) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...(origin && { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' }),
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Holds the Gemini API key server-side. The browser asks for a single-use ephemeral
+ * token for each Live connection, or (in proxy mode) for the path of the WebSocket proxy.
+ */
+export function createTokenServer(options: TokenServerOptions): http.Server {
+  const allowedOrigins = options.allowedOrigins ?? [];
+  const ai = new GoogleGenAI({
+    apiKey: options.apiKey,
+    httpOptions: {
+      apiVersion: 'v1alpha',
+      ...(options.upstreamBaseUrl && { baseUrl: options.upstreamBaseUrl }),
+    },
+  });
+
+  const mintToken = async (): Promise<LiveTokenResponse> => {
+    const now = Date.now();
+    const expireTime = new Date(now + TOKEN_LIFETIME_MS).toISOString();
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    if (!token.name) throw new Error('Token response did not include a name');
+    return { mode: 'token', token: token.name, expireTime };
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== TOKEN_PATH) {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+    if (!isOriginAllowed(origin, allowedOrigins)) {
+      return sendJson(res, 403, { error: 'Origin not allowed' });
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        ...(origin && { 'Access-Control-Allow-Origin': origin }),
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      });
+      return res.end();
+    }
+    if (req.method !== 'POST') {
+      return sendJson(res, 405, { error: 'Use POST' }, origin);
+    }
+
+    if (options.proxy) {
+      return sendJson(res, 200, { mode: 'proxy', proxyPath: PROXY_PATH } satisfies LiveTokenResponse, origin);
+    }
+    try {
+      sendJson(res, 200, await mintToken(), origin);
+    } catch (err) {
+      console.error('Failed to mint Live API token:', err);
+      sendJson(res, 502, { error: 'Could not mint a Live API token' }, origin);
+    }
+  });
+
+  if (options.proxy) {
+    attachLiveProxy(server, {
+      apiKey: options.apiKey,
+      path: PROXY_PATH,
+      upstreamBaseUrl: options.upstreamBaseUrl,
+      allowedOrigins,
+    });
+  }
+  return server;
+}
@@ -0,0 +1,217 @@
+import {
+  CourseAnalytics,
+  CourseConfig,
+  QuestionInsight,
+  QuestionStatus,
+  QuickQuestionStats,
+  TranscriptionEntry,
+  TutorSession,
+} from '../types';
+import { PLANNER_QUICK_QUESTIONS, QUIZ_QUICK_QUESTIONS } from '../constants';
+import { scoreByModule } from './quiz';
+import { stripDiacritics } from '../utils/text';
+
+// --- PII redaction ---
+const REDACTIONS: [RegExp, string][] = [
+  [/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, '[email]'],
+  [/\bhttps?:\/\/\S+/gi, '[url]'],
+  // IBANs, then Portuguese phone numbers (9 digits, optionally +351) and other long digit runs
+  // such as NIF or citizen card numbers
+  [/\b[A-Z]{2}\d{2}(?:\s?[\dA-Z]{4}){3,7}(?:\s?[\dA-Z]{1,4})?\b/g, '[iban]'],
+  [/(?:\+\d{1,3}[\s-]?)?\b\d{3}[\s-]?\d{3}[\s-]?\d{3}\b/g, '[phone/id]'],
+  [/\b\d{6,}\b/g, '[number]'],
+  // Self-introductions: "my name is Ana Silva", "chamo-me Ana", "o meu nome é Ana Silva". Voice
+  // transcripts are often lower-case, so the first word is taken whatever its case
+  [/\b([Mm]y name is|[Cc]hamo-me|[Oo] meu nome é)\s+[\wÀ-ÿ'-]+(?:\s+[A-ZÀ-Ý][\wÀ-ÿ'-]*)*/g, '$1 [name]'],
+];
+
+/** Removes contact details, identifiers and self-introduced names from transcript text. */
+export function redactPii(text: string): string {
+  return REDACTIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+// --- Topic mapping ---
+const STOPWORDS = new Set([
+  // English
+  'the', 'and', 'for', 'with', 'what', 'which', 'how', 'about', 'this', 'that', 'can', 'you', 'your', 'are', 'is',
+  'tell', 'does', 'from', 'into', 'use', 'using', 'used', 'will', 'would', 'could', 'should', 'have', 'there',
+  'basic', 'concept', 'concepts', 'education', 'educational', 'tools', 'examples',
+  // Portuguese
+  'que', 'qual', 'quais', 'como', 'para', 'com', 'uma', 'sobre', 'isto', 'esse', 'essa', 'este', 'esta', 'pode',
+  'podes', 'fala', 'mais', 'dos', 'das', 'nos', 'nas', 'por', 'sao', 'ser', 'tem', 'educacao',
+  'ferramentas', 'conceito', 'conceitos', 'exemplos',
+]);
+
+// Crude stemming so "prompts"/"prompt" and "agentes"/"agents" meet
+const stem = (word: string) => (word.length > 5 ? word.slice(0, 5) : word);
+
+function keywords(text: string): Set<string> {
+  const words = stripDiacritics(text).toLowerCase().split(/[^a-z0-9]+/);
+  return new Set(words.filter(w => w.length >= 3 && !STOPWORDS.has(w)).map(stem));
+}
+
+/**
+ * Builds a classifier that maps a question to the course module whose description shares
+ * the most keywords with it. Keywords found in several modules count for less.
+ */
+export function createModuleMatcher(course: CourseConfig): (question: string) => string | null {
+  const modules = course.highlights.modules;
+  const moduleKeywords = modules.map((name, i) => {
+    const section = course.sections.find(s => s.id === `module-${i + 1}`);
+    return keywords(`${name} ${section?.text ?? ''}`);
+  });
+  const spread = new Map<string, number>();
+  for (const set of moduleKeywords) {
+    for (const word of set) spread.set(word, (spread.get(word) ?? 0) + 1);
+  }
+
+  return question => {
+    let best: string | null = null;
+    let bestScore = 0;
+    const words = keywords(question);
+    moduleKeywords.forEach((set, i) => {
+      let score = 0;
+      for (const word of words) {
+        if (set.has(word)) score += 1 / spread.get(word)!;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = modules[i];
+      }
+    });
+    return best;
+  };
+}
+
+// --- Question classification ---
+const HEDGES = [
+  'not sure', "don't know", 'do not know', 'no information', "doesn't mention", 'does not mention',
+  'not mentioned', 'not specified', "i can't find", 'cannot find',
+  'nao tenho a certeza', 'nao sei', 'nao tenho informacao', 'nao e mencionad', 'nao refere', 'nao especifica',
+  'nao consigo encontrar', 'nao esta claro',
+].map(h => h.replace(/'/g, ''));
+
+const normalize = (text: string) => stripDiacritics(text).toLowerCase().replace(/['’]/g, '');
+
+// Short acknowledgements ("ok", "yes, thanks") are not questions
+function isQuestion(entry: TranscriptionEntry) {
+  return entry.role === 'user' && (entry.text.includes('?') || entry.text.trim().split(/\s+/).length >= 4);
+}
+
+function classifyAnswer(entries: TranscriptionEntry[], index: number): QuestionStatus {
+  const replies: TranscriptionEntry[] = [];
+  for (let i = index + 1; i < entries.length && entries[i].role === 'model'; i++) replies.push(entries[i]);
+  if (replies.length === 0) return 'unanswered';
+  const reply = normalize(replies.map(r => r.text).join(' '));
+  return HEDGES.some(h => reply.includes(h)) ? 'low-confidence' : 'answered';
+}
+
+function quickQuestionTexts(course: CourseConfig) {
+  return [course.quickQuestions, QUIZ_QUICK_QUESTIONS, PLANNER_QUICK_QUESTIONS]
+    .flatMap(localized => Object.values(localized).flat())
+    .map(q => q.text);
+}
+
+const sessionMinutes = (session: TutorSession) =>
+  Math.max(0, (session.endedAt.getTime() - session.startedAt.getTime()) / 60000);
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Aggregates the stored sessions of one course. Text is redacted before anything is counted. */
+export function buildCourseAnalytics(sessions: TutorSession[], course: CourseConfig): CourseAnalytics {
+  const courseSessions = sessions
+    .filter(s => s.courseId === course.id && s.entries.length > 0)
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  const matchModule = createModuleMatcher(course);
+
+  const questions: QuestionInsight[] = [];
+  const clicks = new Map<string, QuickQuestionStats>(quickQuestionTexts(course).map(text => [text, { text, clicks: 0, sessions: 0 }]));
+
+  courseSessions.forEach((session, s) => {
+    const entries = session.entries.map(entry => ({ ...entry, text: redactPii(entry.text) }));
+    const clickedHere = new Set<string>();
+
+    entries.forEach((entry, i) => {
+      if (entry.role === 'user' && entry.source === 'quick-question') {
+        const stats = clicks.get(entry.text) ?? { text: entry.text, clicks: 0, sessions: 0 };
+        stats.clicks += 1;
+        if (!clickedHere.has(entry.text)) stats.sessions += 1;
+        clickedHere.add(entry.text);
+        clicks.set(entry.text, stats);
+      }
+      if (!isQuestion(entry)) return;
+      questions.push({
+        sessionNumber: s + 1,
+        askedAt: entry.timestamp,
+        module: matchModule(entry.text),
+        question: entry.text,
+        status: classifyAnswer(entries, i),
+        source: entry.source ?? 'voice',
+      });
+    });
+  });
+
+  const quizScores = scoreByModule(courseSessions.flatMap(s => s.quiz?.answers ?? []), course.highlights.modules);
+  const minutes = courseSessions.map(sessionMinutes);
+  const totalMinutes = minutes.reduce((sum, m) => sum + m, 0);
+
+  return {
+    sessionCount: courseSessions.length,
+    totalMinutes,
+    averageMinutes: courseSessions.length > 0 ? totalMinutes / courseSessions.length : 0,
+    medianMinutes: median(minutes),
+    modules: course.highlights.modules
+      .map(module => ({
+        module,
+        questions: questions.filter(q => q.module === module).length,
+        averageQuizScore: quizScores.find(score => score.module === module)?.averageScore ?? null,
+      }))
+      .sort((a, b) => b.questions - a.questions),
+    questions,
+    quickQuestions: [...clicks.values()].sort((a, b) => b.clicks - a.clicks),
+  };
+}
+
+// --- CSV export ---
+function toCsv(rows: (string | number | null)[][]): string {
+  const cell = (value: string | number | null) => {
+    const raw = value === null ? '' : String(value);
+    // Trainee text starting like a formula would run as one in the spreadsheet; a leading quote keeps it text
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${raw}` : raw;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  // BOM so spreadsheet apps detect UTF-8 (accented Portuguese text)
+  return '\uFEFF' + rows.map(row => row.map(cell).join(',')).join('\r\n');
+}
+
+export function questionsToCsv(questions: QuestionInsight[]): string {
+  return toCsv([
+    ['session', 'asked_at', 'module', 'status', 'source', 'question'],
+    ...questions.map(q => [q.sessionNumber, q.askedAt.toISOString(), q.module, q.status, q.source, q.question]),
+  ]);
+}
+
+export function summaryToCsv(analytics: CourseAnalytics): string {
+  const unanswered = analytics.questions.filter(q => q.status === 'unanswered').length;
+  const lowConfidence = analytics.questions.filter(q => q.status === 'low-confidence').length;
+  return toCsv([
+    ['metric', 'name', 'value', 'extra'],
+    ['sessions', '', analytics.sessionCount, ''],
+    ['minutes_total', '', analytics.totalMinutes.toFixed(1), ''],
+    ['minutes_average', '', analytics.averageMinutes.toFixed(1), ''],
+    ['minutes_median', '', analytics.medianMinutes.toFixed(1), ''],
+    ['questions', '', analytics.questions.length, ''],
+    ['questions_unanswered', '', unanswered, ''],
+    ['questions_low_confidence', '', lowConfidence, ''],
+    ...analytics.modules.map(m => [
+      'module_questions', m.module, m.questions, m.averageQuizScore === null ? '' : `quiz_avg=${m.averageQuizScore.toFixed(1)}`,
+    ]),
+    ['module_questions', '(unmatched)', analytics.questions.filter(q => q.module === null).length, ''],
+    ...analytics.quickQuestions.map(q => ['quick_question_clicks', q.text, q.clicks, `sessions=${q.sessions}`]),
+  ]);
+}
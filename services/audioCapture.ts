@@ -0,0 +1,76 @@
+import { CAPTURE_PROCESSOR_NAME, CAPTURE_WORKLET_SOURCE } from './captureWorklet';
+
+// The Live API expects 16 kHz PCM16 input regardless of the device rate
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+const FRAME_SIZE = 2048; // 128 ms at 16 kHz
+const VAD_THRESHOLD = 0.01; // RMS, roughly -40 dBFS
+const HANGOVER_FRAMES = 8; // ~1 s of trailing audio after speech
+
+export interface CaptureFrame {
+  samples: Float32Array;
+  pcm: Int16Array;
+  voiced: boolean;
+  level: number;
+  // The frame preceding speech onset, so the first syllable is not clipped
+  preroll?: Int16Array;
+}
+
+export interface AudioCapture {
+  // Taps the raw microphone signal for level meters
+  analyser: AnalyserNode;
+  stop: () => void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorkletLoaded(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Streams the microphone through the capture worklet, which resamples to 16 kHz, converts
+ * to PCM16 and flags voiced frames off the main thread. Every frame is delivered; callers
+ * decide which ones to send.
+ */
+export async function startAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onFrame: (frame: CaptureFrame) => void,
+): Promise<AudioCapture> {
+  await ensureWorkletLoaded(ctx);
+  if (ctx.state === 'suspended') await ctx.resume();
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      frameSize: FRAME_SIZE,
+      vadThreshold: VAD_THRESHOLD,
+      hangoverFrames: HANGOVER_FRAMES,
+    },
+  });
+  node.port.onmessage = (e: MessageEvent<CaptureFrame>) => onFrame(e.data);
+  source.connect(node);
+  const analyser = ctx.createAnalyser();
+  source.connect(analyser);
+
+  return {
+    analyser,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { Blob } from '@google/genai';
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+
+export function decode(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encode(bytes: Uint8Array) {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/** Wraps interleaved PCM16 from the Live API in an AudioBuffer. */
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = Math.floor(dataInt16.length / numChannels);
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+/** Microphone PCM16 in the form sendRealtimeInput expects. */
+export function createBlob(pcm: Int16Array): Blob {
+  return {
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+  };
+}
@@ -0,0 +1,44 @@
+import { UserSettings } from '../types';
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// AudioContext.setSinkId is not in the TypeScript DOM typings yet (Chromium 110+ only)
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/** Device labels stay empty until the page has been granted microphone access once. */
+export async function listAudioDevices(): Promise<AudioDevices> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // The 'default' and 'communications' pseudo-devices duplicate real entries
+  const usable = devices.filter(d => d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications');
+  return {
+    inputs: usable.filter(d => d.kind === 'audioinput'),
+    outputs: usable.filter(d => d.kind === 'audiooutput'),
+  };
+}
+
+export function canSelectOutputDevice() {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+export function buildMicConstraints(settings: UserSettings): MediaTrackConstraints {
+  return {
+    // `ideal` falls back to the default mic when the saved one has been unplugged
+    ...(settings.inputDeviceId && { deviceId: { ideal: settings.inputDeviceId } }),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+  };
+}
+
+export async function applyOutputDevice(ctx: AudioContext, deviceId: string) {
+  const sinkable = ctx as SinkableAudioContext;
+  if (!sinkable.setSinkId) return;
+  try {
+    await sinkable.setSinkId(deviceId);
+  } catch (err) {
+    // An unplugged device keeps playback on the current output
+    console.error('Failed to switch audio output device:', err);
+  }
+}
@@ -0,0 +1,59 @@
+// The Live API sends 24 kHz PCM16 model audio
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export interface PlaybackOptions {
+  playbackRate: number;
+  volume: number;
+}
+
+export interface PlaybackScheduler {
+  /** Queues a chunk right after the previous one and returns when it starts, in context time. */
+  play: (buffer: AudioBuffer, options: PlaybackOptions) => number;
+  /** Stops everything queued; the next chunk starts immediately. */
+  interrupt: () => void;
+  isPlaying: () => boolean;
+}
+
+/**
+ * Plays model audio chunks back to back without gaps. Chunks that arrive after the queue has
+ * drained start at the current time instead of in the past. `onIdle` runs when the last
+ * queued chunk finishes or is stopped.
+ */
+export function createPlaybackScheduler(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  onIdle: () => void,
+): PlaybackScheduler {
+  const active = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+
+  return {
+    play: (buffer, { playbackRate, volume }) => {
+      nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = playbackRate;
+      const gainNode = ctx.createGain();
+      gainNode.gain.value = volume;
+      source.connect(gainNode).connect(destination);
+
+      source.addEventListener('ended', () => {
+        active.delete(source);
+        if (active.size === 0) onIdle();
+      });
+
+      const startAt = nextStartTime;
+      source.start(startAt);
+      nextStartTime += buffer.duration / playbackRate;
+      active.add(source);
+      return startAt;
+    },
+    interrupt: () => {
+      // Keep the ended listeners; they report idle once the stopped sources wind down
+      active.forEach(source => source.stop());
+      active.clear();
+      nextStartTime = 0;
+    },
+    isPlaying: () => active.size > 0,
+  };
+}
@@ -0,0 +1,131 @@
+import { SessionRecording } from '../types';
+
+// Both sides are mixed at the model's output rate so its audio needs no resampling
+export const RECORDING_SAMPLE_RATE = 24000;
+
+interface Segment {
+  offset: number; // in samples at RECORDING_SAMPLE_RATE
+  data: Float32Array;
+}
+
+export interface SessionRecorder {
+  // Seconds elapsed on the recording timeline
+  now: () => number;
+  addInput: (samples: Float32Array, sampleRate: number) => void;
+  addOutput: (samples: Float32Array, sampleRate: number, atSeconds: number) => void;
+  truncateOutput: (atSeconds: number) => void;
+  finish: () => SessionRecording;
+}
+
+// --- PCM helpers ---
+export function resampleLinear(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input.slice();
+  const ratio = fromRate / toRate;
+  const length = Math.floor(input.length / ratio);
+  const output = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, input.length - 1);
+    const fraction = position - index;
+    output[i] = input[index] + (input[next] - input[index]) * fraction;
+  }
+  return output;
+}
+
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return pcm;
+}
+
+export function encodeWav(pcm: Int16Array, sampleRate: number): Blob {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+// --- Recorder ---
+/**
+ * Collects microphone and model audio on one timeline. Mic chunks arrive back to back and
+ * are laid out sequentially; model chunks are placed where they are scheduled to play.
+ * When `previous` is given (resuming a session) the new audio is appended after it.
+ */
+export function createSessionRecorder(sessionId: string, previous: SessionRecording | null = null): SessionRecorder {
+  const baseSamples = previous?.pcm.length ?? 0;
+  const startedAt = performance.now();
+  const inputSegments: Segment[] = [];
+  let outputSegments: Segment[] = [];
+  let inputCursor: number | null = null;
+
+  const now = () => baseSamples / RECORDING_SAMPLE_RATE + (performance.now() - startedAt) / 1000;
+  const toSamples = (seconds: number) => Math.max(0, Math.round(seconds * RECORDING_SAMPLE_RATE));
+
+  const addInput = (samples: Float32Array, sampleRate: number) => {
+    const data = resampleLinear(samples, sampleRate, RECORDING_SAMPLE_RATE);
+    if (inputCursor === null) {
+      inputCursor = Math.max(baseSamples, toSamples(now()) - data.length);
+    }
+    inputSegments.push({ offset: inputCursor, data });
+    inputCursor += data.length;
+  };
+
+  const addOutput = (samples: Float32Array, sampleRate: number, atSeconds: number) => {
+    outputSegments.push({
+      offset: Math.max(baseSamples, toSamples(atSeconds)),
+      data: resampleLinear(samples, sampleRate, RECORDING_SAMPLE_RATE),
+    });
+  };
+
+  // Drops model audio that was scheduled but never played because the turn was interrupted
+  const truncateOutput = (atSeconds: number) => {
+    const cutoff = toSamples(atSeconds);
+    outputSegments = outputSegments
+      .filter(segment => segment.offset < cutoff)
+      .map(segment =>
+        segment.offset + segment.data.length > cutoff
+          ? { offset: segment.offset, data: segment.data.subarray(0, cutoff - segment.offset) }
+          : segment,
+      );
+  };
+
+  const finish = (): SessionRecording => {
+    const segments = [...inputSegments, ...outputSegments];
+    const length = segments.reduce((max, s) => Math.max(max, s.offset + s.data.length), baseSamples);
+    const mix = new Float32Array(length - baseSamples);
+    for (const segment of segments) {
+      const start = segment.offset - baseSamples;
+      for (let i = 0; i < segment.data.length; i++) {
+        mix[start + i] += segment.data[i];
+      }
+    }
+
+    const pcm = new Int16Array(length);
+    if (previous) pcm.set(previous.pcm);
+    pcm.set(floatToPcm16(mix), baseSamples);
+    return { sessionId, sampleRate: RECORDING_SAMPLE_RATE, pcm };
+  };
+
+  return { now, addInput, addOutput, truncateOutput, finish };
+}
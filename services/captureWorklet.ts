@@ -0,0 +1,100 @@
+// Source of the microphone capture AudioWorkletProcessor. It is kept as a string and loaded
+// through a Blob URL so it works both under Vite and with the import-map build.
+
+export const CAPTURE_PROCESSOR_NAME = 'tutor-capture-processor';
+
+export const CAPTURE_WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const o = options.processorOptions || {};
+    this.targetRate = o.targetRate;
+    this.frameSize = o.frameSize;
+    this.vadThreshold = o.vadThreshold;
+    this.hangoverFrames = o.hangoverFrames;
+
+    // Streaming linear resampler; position is relative to the current block and
+    // -1 refers to the last sample of the previous block
+    this.ratio = sampleRate / this.targetRate;
+    this.position = 0;
+    this.lastSample = 0;
+    // One-pole low-pass ahead of downsampling to limit aliasing
+    this.alpha = this.ratio > 1 ? 1 - Math.exp(-2 * Math.PI * (this.targetRate / 2) / sampleRate) : 1;
+    this.filtered = 0;
+
+    this.frame = new Float32Array(this.frameSize);
+    this.filled = 0;
+
+    this.noiseFloor = this.vadThreshold / 2;
+    this.hangover = 0;
+    this.wasVoiced = false;
+    this.previousPcm = null;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    const input = new Float32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+      this.filtered += this.alpha * (channel[i] - this.filtered);
+      input[i] = this.filtered;
+    }
+
+    let p = this.position;
+    while (p < input.length - 1) {
+      const i = Math.floor(p);
+      const a = i < 0 ? this.lastSample : input[i];
+      const b = input[i + 1];
+      this.push(a + (b - a) * (p - i));
+      p += this.ratio;
+    }
+    this.position = p - input.length;
+    this.lastSample = input[input.length - 1];
+    return true;
+  }
+
+  push(sample) {
+    this.frame[this.filled++] = sample;
+    if (this.filled === this.frameSize) this.emit();
+  }
+
+  emit() {
+    const samples = this.frame;
+    this.frame = new Float32Array(this.frameSize);
+    this.filled = 0;
+
+    let sum = 0;
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      sum += s * s;
+      pcm[i] = s < 0 ? s * 32768 : s * 32767;
+    }
+    const level = Math.sqrt(sum / samples.length);
+
+    // Speech is anything clearly above the adaptive noise floor; the hangover keeps
+    // trailing syllables and the pause the server needs to detect the end of a turn
+    const speech = level > Math.max(this.vadThreshold, this.noiseFloor * 3);
+    if (speech) {
+      this.hangover = this.hangoverFrames;
+    } else {
+      this.noiseFloor = this.noiseFloor * 0.95 + level * 0.05;
+      if (this.hangover > 0) this.hangover--;
+    }
+    const voiced = speech || this.hangover > 0;
+
+    const message = { samples, pcm, voiced, level };
+    const transfer = [samples.buffer, pcm.buffer];
+    if (voiced && !this.wasVoiced && this.previousPcm) {
+      message.preroll = this.previousPcm;
+      transfer.push(this.previousPcm.buffer);
+    }
+    this.previousPcm = pcm.slice();
+    this.wasVoiced = voiced;
+    this.port.postMessage(message, transfer);
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', CaptureProcessor);
+`;
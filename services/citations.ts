@@ -0,0 +1,75 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { Citation, CourseSection } from '../types';
+
+const CITE_SOURCES = 'citeSources';
+
+export function buildCitationFunctionDeclaration(sections: CourseSection[]): FunctionDeclaration {
+  return {
+    name: CITE_SOURCES,
+    description: 'Cites the course document sections the answer you are about to give is based on.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        sources: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              sectionId: {
+                type: Type.STRING,
+                description: 'ID of the section, as given in square brackets in the course context.',
+                enum: sections.map(s => s.id),
+              },
+              quote: {
+                type: Type.STRING,
+                description: 'Short verbatim quote (at most 20 words) from that section supporting the answer.',
+              },
+            },
+            required: ['sectionId'],
+          },
+        },
+      },
+      required: ['sources'],
+    },
+  };
+}
+
+export function isCitationFunction(name: string | undefined) {
+  return name === CITE_SOURCES;
+}
+
+export interface CitationToolOutcome {
+  response: FunctionResponse;
+  citations: Citation[];
+}
+
+/** Keeps the citations that point at real sections and tells the model about any that do not. */
+export function handleCitationToolCall(call: FunctionCall, sections: CourseSection[]): CitationToolOutcome {
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+  const sources = Array.isArray(call.args?.sources) ? (call.args.sources as Record<string, unknown>[]) : [];
+  const ids = new Set(sections.map(s => s.id));
+
+  const citations: Citation[] = [];
+  const unknown: string[] = [];
+  for (const source of sources) {
+    const sectionId = String(source?.sectionId ?? '');
+    if (!ids.has(sectionId)) {
+      unknown.push(sectionId);
+      continue;
+    }
+    if (citations.some(c => c.sectionId === sectionId)) continue;
+    const quote = typeof source.quote === 'string' ? source.quote.trim() : '';
+    citations.push({ sectionId, ...(quote && { quote }) });
+  }
+
+  if (citations.length === 0) {
+    return { response: respond({ error: `No valid section IDs. Use one of: ${[...ids].join(', ')}.` }), citations };
+  }
+  return {
+    response: respond({
+      output: 'Sources shown to the trainee. Continue with your answer.',
+      ...(unknown.length > 0 && { ignored: unknown }),
+    }),
+    citations,
+  };
+}
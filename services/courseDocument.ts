@@ -0,0 +1,169 @@
+import { CourseDocument, CourseHighlights, EvaluationItem } from '../types';
+import { MAX_CONTEXT_CHARS } from '../constants';
+import { parseDocumentFile } from './documentParser';
+
+const CHUNK_SIZE = 1500;
+
+const KNOWN_TOOLS = [
+  'MagicSchool.ai',
+  'n8n.io',
+  'customGPTs',
+  'ChatGPT',
+  'Gemini',
+  'Claude',
+  'Copilot',
+  'NotebookLM',
+  'Canva',
+  'Python',
+];
+
+// Heading that introduces the list of modules (plain or markdown), and one numbered item of that
+// list. "Módulo" alone is a heading only when no number follows, or it would match an item
+export const MODULE_LIST_HEADING = /^\s*(?:#+\s*)?(?:action content|course content|contents?|modules|m[oó]dulos?(?!\s*\d)|syllabus|conteúdos?|conteudos?|programa)\b/im;
+export const MODULE_ITEM = /^\s*(?:module\s+|módulo\s+)?(\d+)[.)]?\s*[:.-]?\s+([^:\n]{2,80})/i;
+
+// --- Chunking ---
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [paragraph];
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      parts.push(current.trim());
+      current = '';
+    }
+    // A single run-on sentence still has to fit somewhere
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const slice = sentence.slice(i, i + maxChars);
+      if (current.length + slice.length > maxChars) {
+        parts.push(current.trim());
+        current = '';
+      }
+      current += slice;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+export function chunkText(text: string, maxChars: number = CHUNK_SIZE): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => (p.length > maxChars ? splitLongParagraph(p, maxChars) : [p]));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function buildDocumentContext(chunks: string[], maxChars: number = MAX_CONTEXT_CHARS): string {
+  const included: string[] = [];
+  let total = 0;
+  for (const chunk of chunks) {
+    if (total + chunk.length > maxChars) break;
+    included.push(chunk);
+    total += chunk.length;
+  }
+  const omitted = chunks.length - included.length;
+  const context = included.join('\n\n');
+  return omitted > 0
+    ? `${context}\n\n[${omitted} further section(s) of the document were omitted for length.]`
+    : context;
+}
+
+// --- Highlights ---
+function findLabelledValue(text: string, labels: string[]): string | undefined {
+  const pattern = new RegExp(`^\\s*(?:${labels.join('|')})\\s*:\\s*(.+)$`, 'im');
+  return text.match(pattern)?.[1].trim();
+}
+
+function extractTitle(text: string, fileName: string) {
+  const labelled = findLabelledValue(text, ['document title', 'course title', 'title', 'título', 'titulo', 'designação', 'designacao']);
+  if (labelled) return labelled;
+  const firstLine = text.split('\n').map(l => l.replace(/^#+\s*/, '').trim()).find(Boolean);
+  if (firstLine && firstLine.length <= 120) return firstLine;
+  return fileName.replace(/\.[^.]+$/, '');
+}
+
+function extractDuration(text: string) {
+  const labelled = findLabelledValue(text, ['duration', 'duração', 'duracao', 'carga horária', 'carga horaria']);
+  if (labelled) return labelled;
+  const hours = text.match(/(\d+)\s*(?:hours|horas)\b/i);
+  return hours ? `${hours[1]} hours` : '';
+}
+
+function extractTools(text: string) {
+  const found = new Map<string, string>();
+  const add = (name: string) => {
+    const key = name.toLowerCase();
+    if (!found.has(key)) found.set(key, name);
+  };
+
+  for (const tool of KNOWN_TOOLS) {
+    const escaped = tool.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = text.match(new RegExp(`\\b${escaped}\\b`, 'i'));
+    if (match) add(match[0]);
+  }
+  for (const match of text.matchAll(/\b[A-Za-z0-9-]+\.(?:ai|io)\b/g)) {
+    add(match[0]);
+  }
+  return [...found.values()];
+}
+
+function extractEvaluation(text: string): EvaluationItem[] {
+  // Prefer the evaluation section so unrelated percentages elsewhere are ignored
+  const heading = text.search(/^\s*(?:evaluation|assessment|avaliação|avaliacao)\b/im);
+  const section = heading === -1 ? text : text.slice(heading);
+  const items: EvaluationItem[] = [];
+  for (const match of section.matchAll(/^\s*[-•*]?\s*([^:\n%]{2,60}?)\s*[:–-]\s*(\d{1,3})\s*%/gm)) {
+    items.push({ label: match[1].trim(), weight: Number(match[2]) });
+  }
+  return items;
+}
+
+function extractModules(text: string): string[] {
+  const heading = text.search(MODULE_LIST_HEADING);
+  if (heading === -1) return [];
+  const lines = text.slice(heading).split('\n').slice(1);
+
+  const modules: string[] = [];
+  for (const line of lines) {
+    const item = line.match(MODULE_ITEM);
+    if (item) {
+      modules.push(item[2].trim().replace(/[.;]$/, ''));
+    } else if (modules.length > 0 && /^\s*[A-ZÀ-Ý][A-ZÀ-Ý ]+:/.test(line)) {
+      // Next upper-case section heading ends the list
+      break;
+    }
+  }
+  return modules;
+}
+
+export function extractHighlights(text: string, fileName: string = ''): CourseHighlights {
+  return {
+    title: extractTitle(text, fileName),
+    duration: extractDuration(text),
+    tools: extractTools(text),
+    evaluation: extractEvaluation(text),
+    modules: extractModules(text),
+  };
+}
+
+export async function loadCourseDocument(file: File): Promise<CourseDocument> {
+  const text = await parseDocumentFile(file);
+  return {
+    fileName: file.name,
+    text,
+    highlights: extractHighlights(text, file.name),
+  };
+}
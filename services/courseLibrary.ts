@@ -0,0 +1,94 @@
+import { CourseConfig, CourseDocument } from '../types';
+import {
+  PDF_CONTEXT,
+  DEFAULT_COURSE_ID,
+  DEFAULT_VOICE_NAME,
+  DEFAULT_QUICK_QUESTIONS,
+  DOCUMENT_QUICK_QUESTIONS,
+  buildSystemInstruction,
+} from '../constants';
+import { buildDocumentContext, extractHighlights } from './courseDocument';
+import { formatSectionsForContext, splitSections } from './courseSections';
+import { slugify } from '../utils/text';
+
+const STORAGE_KEY = 'tutor-voz.custom-courses';
+const COURSE_PARAM = 'course';
+
+function buildBuiltInCourse(): CourseConfig {
+  const highlights = extractHighlights(PDF_CONTEXT);
+  const sections = splitSections(PDF_CONTEXT);
+  const context = buildDocumentContext(formatSectionsForContext(sections));
+  return {
+    id: DEFAULT_COURSE_ID,
+    context,
+    systemInstruction: buildSystemInstruction(highlights.title, context),
+    quickQuestions: DEFAULT_QUICK_QUESTIONS,
+    voiceName: DEFAULT_VOICE_NAME,
+    highlights,
+    sections,
+  };
+}
+
+export const BUILT_IN_COURSES: CourseConfig[] = [buildBuiltInCourse()];
+
+export function createCourseFromDocument(document: CourseDocument, takenIds: string[] = []): CourseConfig {
+  const baseId = slugify(document.highlights.title);
+  let id = baseId;
+  for (let n = 2; takenIds.includes(id); n++) {
+    id = `${baseId}-${n}`;
+  }
+
+  const sections = splitSections(document.text);
+  const context = buildDocumentContext(formatSectionsForContext(sections));
+  return {
+    id,
+    context,
+    systemInstruction: buildSystemInstruction(document.highlights.title, context),
+    quickQuestions: DOCUMENT_QUICK_QUESTIONS,
+    voiceName: DEFAULT_VOICE_NAME,
+    highlights: document.highlights,
+    sections,
+    document,
+  };
+}
+
+// --- Persistence of uploaded courses ---
+export function loadCustomCourses(): CourseConfig[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw) as { id: string; document: CourseDocument }[];
+    // Highlights are re-derived so stored courses pick up extractor improvements; anything else
+    // stored by older versions is dropped
+    return stored.map(({ id, document: { fileName, text } }) => ({
+      ...createCourseFromDocument({ fileName, text, highlights: extractHighlights(text, fileName) }),
+      id,
+    }));
+  } catch (err) {
+    console.warn('Ignoring unreadable stored courses:', err);
+    return [];
+  }
+}
+
+export function saveCustomCourses(courses: CourseConfig[]) {
+  const stored = courses
+    .filter(course => course.document)
+    .map(course => ({ id: course.id, document: course.document }));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    // Large documents can exceed the storage quota; they stay available for this visit
+    console.warn('Could not persist custom courses:', err);
+  }
+}
+
+// --- URL addressing (?course=<id>) ---
+export function getCourseIdFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get(COURSE_PARAM);
+}
+
+export function setCourseIdInUrl(courseId: string) {
+  const url = new URL(window.location.href);
+  url.searchParams.set(COURSE_PARAM, courseId);
+  window.history.replaceState(null, '', url);
+}
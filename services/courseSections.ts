@@ -0,0 +1,116 @@
+import { CourseSection } from '../types';
+import { slugify } from '../utils/text';
+import { MODULE_ITEM, MODULE_LIST_HEADING, chunkText } from './courseDocument';
+
+const OVERVIEW_ID = 'overview';
+// Sections longer than this are split so a citation still points somewhere specific
+const MAX_SECTION_CHARS = 2000;
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+// An upper-case label on a line of its own, e.g. "OBJECTIVES:" (labels with a value, such as
+// "DURATION: 25 hours", are content)
+const LABEL_HEADING = /^([A-ZÀ-Ý][A-ZÀ-Ý0-9 ()/&,-]{2,80}?)\s*(?:\(([^)]*)\))?\s*:\s*$/;
+
+function toSentenceCase(label: string) {
+  return label === label.toUpperCase() ? label.charAt(0) + label.slice(1).toLowerCase() : label;
+}
+
+function parseHeading(line: string): string | null {
+  const markdown = line.match(MARKDOWN_HEADING);
+  if (markdown) return markdown[1];
+  const label = line.trim().match(LABEL_HEADING);
+  if (label) return toSentenceCase(label[1].trim()) + (label[2] ? ` (${label[2]})` : '');
+  return null;
+}
+
+// Each numbered module becomes its own section so answers about one module can cite it
+function splitModules(section: CourseSection): CourseSection[] {
+  const intro: string[] = [];
+  const modules: CourseSection[] = [];
+  for (const line of section.text.split('\n')) {
+    const item = line.match(MODULE_ITEM);
+    if (item) {
+      modules.push({
+        id: `module-${item[1]}`,
+        title: `Module ${item[1]}: ${item[2].trim()}`,
+        text: line.trim(),
+        generatedTitle: { kind: 'module', number: item[1], name: item[2].trim() },
+      });
+    } else if (modules.length > 0 && line.trim()) {
+      modules[modules.length - 1].text += `\n${line.trim()}`;
+    } else {
+      intro.push(line);
+    }
+  }
+  if (modules.length === 0) return [section];
+  const introText = intro.join('\n').trim();
+  return [...(introText ? [{ ...section, text: introText }] : []), ...modules];
+}
+
+function splitLongSection(section: CourseSection): CourseSection[] {
+  if (section.text.length <= MAX_SECTION_CHARS) return [section];
+  return chunkText(section.text, MAX_SECTION_CHARS).map((text, i) => ({
+    id: `${section.id}-${i + 1}`,
+    title: `${section.title} (${i + 1})`,
+    text,
+    ...(section.generatedTitle && { generatedTitle: section.generatedTitle, part: i + 1 }),
+  }));
+}
+
+/**
+ * Splits a course document into citable sections at markdown headings and upper-case labels.
+ * Text before the first heading becomes an overview section.
+ */
+export function splitSections(text: string): CourseSection[] {
+  const raw: { title: string; lines: string[]; isModuleList: boolean }[] = [
+    { title: 'Overview', lines: [], isModuleList: false },
+  ];
+  for (const line of text.split('\n')) {
+    const heading = parseHeading(line);
+    if (heading) {
+      raw.push({ title: heading, lines: [], isModuleList: MODULE_LIST_HEADING.test(heading) });
+    } else {
+      raw[raw.length - 1].lines.push(line);
+    }
+  }
+
+  const taken = new Set<string>();
+  const uniqueId = (base: string) => {
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    return id;
+  };
+
+  return raw
+    .flatMap((section, i) => {
+      const base: CourseSection = {
+        id: i === 0 ? OVERVIEW_ID : slugify(section.title),
+        title: section.title,
+        text: section.lines.join('\n').trim(),
+        ...(i === 0 && { generatedTitle: { kind: 'overview' } }),
+      };
+      return section.isModuleList ? splitModules(base) : [base];
+    })
+    .filter(section => section.text)
+    .flatMap(splitLongSection)
+    .map(section => ({ ...section, id: uniqueId(section.id) }));
+}
+
+export interface SectionTitleLabels {
+  overview: string;
+  module: (number: string, name: string) => string;
+}
+
+/** The title to show for a section, in the UI language when the splitter made it up. */
+export function sectionTitle(section: CourseSection, labels: SectionTitleLabels): string {
+  const generated = section.generatedTitle;
+  if (!generated) return section.title;
+  const title = generated.kind === 'overview' ? labels.overview : labels.module(generated.number, generated.name);
+  return section.part ? `${title} (${section.part})` : title;
+}
+
+/** Context for the system instruction, with each section headed by the ID the model cites. */
+export function formatSectionsForContext(sections: CourseSection[]): string[] {
+  return sections.map(section => `[${section.id}] ${section.title}\n${section.text}`);
+}
@@ -0,0 +1,45 @@
+// Thin promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'tutor-voz';
+const DB_VERSION = 2;
+
+export const SESSION_STORE = 'sessions';
+export const RECORDING_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE, { keyPath: 'sessionId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function getStore(storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(storeName, mode).objectStore(storeName);
+}
@@ -0,0 +1,87 @@
+// Client-side extraction of plain text from course documents (PDF, DOCX, Markdown, text).
+import { DocumentErrorCode } from '../types';
+
+export const SUPPORTED_DOCUMENT_TYPES = '.pdf,.docx,.md,.markdown,.txt';
+
+/** A document the parser rejected; `detail` is the extension or file name the UI message names. */
+export class DocumentError extends Error {
+  code: DocumentErrorCode;
+  detail: string;
+
+  constructor(code: DocumentErrorCode, detail: string) {
+    super(`${code}: ${detail}`);
+    this.name = 'DocumentError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+function getExtension(fileName: string) {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+async function extractPdfText(file: File): Promise<string> {
+  // Loaded on demand so the parser only ships when a PDF is actually dropped in
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    // Bundled by Vite so the worker always matches the installed pdfjs-dist
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    let pageText = '';
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      pageText += item.str + (item.hasEOL ? '\n' : '');
+    }
+    pages.push(pageText);
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+}
+
+async function extractDocxText(file: File): Promise<string> {
+  const { default: mammoth } = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+}
+
+function normalizeText(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export async function parseDocumentFile(file: File): Promise<string> {
+  const extension = getExtension(file.name);
+  let text: string;
+  switch (extension) {
+    case 'pdf':
+      text = await extractPdfText(file);
+      break;
+    case 'docx':
+      text = await extractDocxText(file);
+      break;
+    case 'md':
+    case 'markdown':
+    case 'txt':
+      text = await file.text();
+      break;
+    default:
+      throw new DocumentError('unsupported-type', extension);
+  }
+
+  const normalized = normalizeText(text);
+  if (!normalized) {
+    throw new DocumentError('no-text', file.name);
+  }
+  return normalized;
+}
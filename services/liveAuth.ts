@@ -0,0 +1,30 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveTokenResponse } from '../types';
+import { LIVE_TOKEN_ENDPOINT } from '../constants';
+
+// The proxy swaps in the real key server-side; the SDK just needs a non-empty one
+const PROXY_PLACEHOLDER_KEY = 'proxy';
+
+/**
+ * Builds a client for one Live connection. Ephemeral tokens are single-use, so this is
+ * called again for every reconnect.
+ */
+export async function createLiveClient(): Promise<GoogleGenAI> {
+  const res = await fetch(LIVE_TOKEN_ENDPOINT, { method: 'POST' });
+  if (!res.ok) {
+    throw new Error(`Token server responded with ${res.status}`);
+  }
+  const body = (await res.json()) as LiveTokenResponse;
+
+  if (body.mode === 'proxy' && body.proxyPath) {
+    return new GoogleGenAI({
+      apiKey: PROXY_PLACEHOLDER_KEY,
+      httpOptions: { baseUrl: new URL(body.proxyPath, window.location.origin).href },
+    });
+  }
+  if (!body.token) {
+    throw new Error('Token server did not return a token');
+  }
+  // Ephemeral tokens are only accepted by the v1alpha Live endpoint
+  return new GoogleGenAI({ apiKey: body.token, httpOptions: { apiVersion: 'v1alpha' } });
+}
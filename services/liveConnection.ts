@@ -0,0 +1,195 @@
+import {
+  LiveConnectConfig,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { ConnectionState } from '../types';
+import { MAX_RECONNECT_ATTEMPTS, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS } from '../constants';
+
+// The parts of the SDK's Session and client used here, so tests can stand in for them
+export interface LiveSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface LiveClient {
+  live: { connect: (params: LiveConnectParameters) => Promise<LiveSession> };
+}
+
+export interface ReconnectStatus {
+  attempt: number;
+  // Date.now() at which the next attempt starts
+  at: number;
+}
+
+export interface LiveConnectionOptions {
+  createClient: () => Promise<LiveClient>;
+  /** Connect parameters for each attempt; `handle` resumes the previous session when set. */
+  buildParams: (handle: string | null) => { model: string; config: LiveConnectConfig };
+  onStateChange: (state: ConnectionState, reconnect: ReconnectStatus | null) => void;
+  onSession: (session: LiveSession | null) => void;
+  /** May be async; a rejection is logged rather than left unhandled. */
+  onMessage: (message: LiveServerMessage) => void | Promise<void>;
+  /** Runs when the connection drops, before a reconnect is scheduled. */
+  onDrop: () => void;
+}
+
+export interface LiveConnection {
+  /** Opens the first connection. Rejects if it fails; later drops are retried instead. */
+  start: () => Promise<void>;
+  retryNow: () => void;
+  stop: () => void;
+}
+
+export function reconnectDelay(attempt: number) {
+  return Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+}
+
+/**
+ * Keeps a Live session up: remembers the latest resumption handle, moves over when the server
+ * announces it is going away, and reconnects with exponential backoff when the connection
+ * drops, giving up with ERROR after MAX_RECONNECT_ATTEMPTS.
+ */
+export function createLiveConnection(options: LiveConnectionOptions): LiveConnection {
+  let session: LiveSession | null = null;
+  let handle: string | null = null;
+  let attempts = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  // Bumped by every connect and by stop; callbacks and sessions of older attempts are ignored
+  let generation = 0;
+  let connecting = false;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const stop = () => {
+    stopped = true;
+    generation += 1;
+    connecting = false;
+    clearTimer();
+    handle = null;
+    session?.close();
+    session = null;
+  };
+
+  const scheduleReconnect = (immediate = false) => {
+    session?.close();
+    session = null;
+    options.onSession(null);
+    options.onDrop();
+
+    const attempt = attempts + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      console.error('Giving up after', MAX_RECONNECT_ATTEMPTS, 'reconnection attempts');
+      stop();
+      options.onStateChange(ConnectionState.ERROR, null);
+      return;
+    }
+    attempts = attempt;
+    const delay = immediate ? 0 : reconnectDelay(attempt);
+    options.onStateChange(ConnectionState.RECONNECTING, { attempt, at: Date.now() + delay });
+    timer = setTimeout(() => {
+      timer = null;
+      connect(true);
+    }, delay);
+  };
+
+  const connect = async (isReconnect: boolean) => {
+    const current = ++generation;
+    const isCurrent = () => current === generation && !stopped;
+    let opened = false;
+    let dropped = false;
+
+    const onDrop = () => {
+      if (dropped || !isCurrent()) return;
+      dropped = true;
+      // A failed first connect is reported by start() instead
+      if (opened || isReconnect) scheduleReconnect();
+    };
+
+    connecting = true;
+    try {
+      const ai = await options.createClient();
+      const { model, config } = options.buildParams(handle);
+      const next = await ai.live.connect({
+        model,
+        config: { ...config, sessionResumption: { handle: handle ?? undefined } },
+        callbacks: {
+          onopen: () => {
+            if (!isCurrent()) return;
+            opened = true;
+            attempts = 0;
+            options.onStateChange(ConnectionState.CONNECTED, null);
+          },
+          onmessage: (message: LiveServerMessage) => {
+            if (!isCurrent()) return;
+            // Keep the latest handle so a dropped connection can pick up where it left off
+            const resumption = message.sessionResumptionUpdate;
+            if (resumption?.resumable && resumption.newHandle) {
+              handle = resumption.newHandle;
+            }
+
+            // The server is about to end the connection (e.g. session time limit): move over now
+            if (message.goAway) {
+              console.warn('Live API closing connection soon:', message.goAway.timeLeft);
+              if (!dropped) {
+                dropped = true;
+                scheduleReconnect(true);
+              }
+              return;
+            }
+            Promise.resolve(options.onMessage(message)).catch(err => {
+              console.error('Failed to handle Live API message:', err);
+            });
+          },
+          onerror: (e) => {
+            console.error('Live API Error:', e);
+            onDrop();
+          },
+          onclose: () => {
+            onDrop();
+          },
+        },
+      });
+
+      if (dropped || !isCurrent()) {
+        next.close();
+        return;
+      }
+      session = next;
+      options.onSession(next);
+    } catch (err) {
+      if (!isReconnect) throw err;
+      console.error('Reconnect failed:', err);
+      onDrop();
+    } finally {
+      if (current === generation) connecting = false;
+    }
+  };
+
+  return {
+    start: () => {
+      stopped = false;
+      attempts = 0;
+      handle = null;
+      return connect(false);
+    },
+    retryNow: () => {
+      // A connect already on its way (a double click, or the backoff timer just fired) is left to finish
+      if (connecting || session || stopped) return;
+      clearTimer();
+      connect(true);
+    },
+    stop,
+  };
+}
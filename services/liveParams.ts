@@ -0,0 +1,59 @@
+import { LiveConnectConfig, Modality, Tool } from '@google/genai';
+import { CourseSection, InputMode, Locale, TranscriptionEntry } from '../types';
+import { LIVE_LANGUAGE_CODES, buildResumeInstruction } from '../constants';
+import { summarizeTranscript } from './sessionStore';
+
+// What a session was started with; kept for every reconnect
+export interface LiveSessionSettings {
+  modelName: string;
+  systemInstruction: string;
+  voiceName: string;
+  sections: CourseSection[];
+  locale: Locale;
+  inputMode: InputMode;
+  playbackRate: number;
+  volume: number;
+  tools?: Tool[];
+}
+
+/**
+ * Connect parameters for one attempt. `handle` is the resumption handle, if any; `transcript`
+ * is what was said so far, for fresh connections that continue an earlier conversation.
+ */
+export function buildLiveParams(
+  live: LiveSessionSettings,
+  handle: string | null,
+  transcript: TranscriptionEntry[],
+): { model: string; config: LiveConnectConfig } {
+  const languageCode = LIVE_LANGUAGE_CODES[live.locale];
+  const isText = live.inputMode === 'text';
+
+  // A resumed session keeps its own memory; a fresh one is told what was said so far
+  let systemInstruction = live.systemInstruction;
+  if (!handle && transcript.length > 0) {
+    systemInstruction += buildResumeInstruction(summarizeTranscript(transcript));
+  }
+
+  return {
+    model: live.modelName,
+    config: {
+      responseModalities: [isText ? Modality.TEXT : Modality.AUDIO],
+      // The Gemini API takes no language codes for transcription; speechConfig and the
+      // system instruction carry the language
+      ...(!isText && {
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: live.voiceName } },
+          languageCode,
+        },
+        outputAudioTranscription: {},
+        inputAudioTranscription: {},
+      }),
+      systemInstruction,
+      // Push-to-talk marks turns explicitly instead of relying on server-side detection
+      ...(live.inputMode === 'push-to-talk' && {
+        realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+      }),
+      ...(live.tools && { tools: live.tools }),
+    },
+  };
+}
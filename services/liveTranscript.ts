@@ -0,0 +1,101 @@
+import { LiveServerContent } from '@google/genai';
+import { Citation, TranscriptionEntry } from '../types';
+
+export interface LiveTurnText {
+  user: string;
+  model: string;
+}
+
+export interface TranscriptUpdate {
+  // The text of the turn in progress changed
+  changed: boolean;
+  // Set when the server completed the turn; the entries to append to the transcript
+  committed: TranscriptionEntry[] | null;
+}
+
+export interface TranscriptAssembler {
+  /** Adds the transcription parts of a server message. `offset` is the recording time, if any. */
+  ingest: (content: LiveServerContent | undefined, offset?: number) => TranscriptUpdate;
+  /** Recording time at which the model's audio for this turn starts playing. */
+  markModelAudio: (offset: number) => void;
+  addCitations: (citations: Citation[]) => void;
+  /** Finishes the turn in progress, e.g. on turnComplete or when the connection drops. */
+  commit: () => TranscriptionEntry[];
+  live: () => LiveTurnText;
+}
+
+export interface TranscriptAssemblerOptions {
+  // The session replies in text (TEXT modality), so the model's words come as text parts
+  // rather than as a transcription of its audio
+  textReplies?: boolean;
+}
+
+/**
+ * Collects the streamed input and output transcriptions of one turn and turns them into
+ * transcript entries once the turn is over.
+ */
+export function createTranscriptAssembler({ textReplies = false }: TranscriptAssemblerOptions = {}): TranscriptAssembler {
+  let input = '';
+  let output = '';
+  let userOffset: number | null = null;
+  let modelOffset: number | null = null;
+  // Sources cited by the model for the answer it is giving
+  let citations: Citation[] = [];
+
+  const resetTurn = () => {
+    input = '';
+    output = '';
+    userOffset = null;
+    modelOffset = null;
+  };
+
+  const commit = (): TranscriptionEntry[] => {
+    const userText = input.trim();
+    const modelText = output.trim();
+    // Citations made in a turn without speech carry over to the answer that follows
+    const turnCitations = modelText ? citations : [];
+    if (modelText) citations = [];
+
+    const entries: TranscriptionEntry[] = [];
+    if (userText) {
+      entries.push({ role: 'user', text: userText, timestamp: new Date(), audioOffset: userOffset ?? undefined });
+    }
+    if (modelText) {
+      entries.push({
+        role: 'model',
+        text: modelText,
+        timestamp: new Date(),
+        audioOffset: modelOffset ?? undefined,
+        ...(turnCitations.length > 0 && { citations: turnCitations }),
+      });
+    }
+    resetTurn();
+    return entries;
+  };
+
+  return {
+    ingest: (content, offset) => {
+      const outputText = textReplies
+        ? content?.modelTurn?.parts?.filter(part => part.text && !part.thought).map(part => part.text).join('')
+        : content?.outputTranscription?.text;
+      const inputText = content?.inputTranscription?.text;
+      if (outputText) output += outputText;
+      if (inputText) {
+        input += inputText;
+        if (offset !== undefined && userOffset === null) userOffset = offset;
+      }
+      return {
+        changed: Boolean(outputText || inputText),
+        committed: content?.turnComplete ? commit() : null,
+      };
+    },
+    markModelAudio: offset => {
+      if (modelOffset === null) modelOffset = offset;
+    },
+    addCitations: added => {
+      citations = [...citations, ...added.filter(c => !citations.some(existing => existing.sectionId === c.sectionId))];
+    },
+    commit,
+    live: () => ({ user: input, model: output }),
+  };
+}
@@ -0,0 +1,96 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { ModuleScore, QuizAnswer } from '../types';
+
+export const QUIZ_MAX_SCORE = 10;
+
+const RECORD_ANSWER = 'recordAnswer';
+const FINISH_QUIZ = 'finishQuiz';
+
+export function buildQuizFunctionDeclarations(modules: string[]): FunctionDeclaration[] {
+  return [
+    {
+      name: RECORD_ANSWER,
+      description: 'Records the score for the answer the trainee just gave to a quiz question.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          module: {
+            type: Type.STRING,
+            description: 'Course module the question was about.',
+            ...(modules.length > 0 && { enum: modules }),
+          },
+          question: { type: Type.STRING, description: 'The question that was asked.' },
+          answer: { type: Type.STRING, description: "Short summary of the trainee's answer." },
+          score: {
+            type: Type.INTEGER,
+            description: `Score from 0 (wrong or no answer) to ${QUIZ_MAX_SCORE} (complete and correct).`,
+          },
+          feedback: { type: Type.STRING, description: 'One sentence of feedback for the trainee.' },
+        },
+        required: ['module', 'question', 'answer', 'score', 'feedback'],
+      },
+    },
+    {
+      name: FINISH_QUIZ,
+      description: 'Ends the quiz with an overall summary of how the trainee did.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          summary: {
+            type: Type.STRING,
+            description: 'Overall result, strengths and the modules the trainee should review.',
+          },
+        },
+        required: ['summary'],
+      },
+    },
+  ];
+}
+
+export function isQuizFunction(name: string | undefined) {
+  return name === RECORD_ANSWER || name === FINISH_QUIZ;
+}
+
+export interface QuizToolOutcome {
+  response: FunctionResponse;
+  answer?: QuizAnswer;
+  summary?: string;
+}
+
+/** Validates a quiz function call from the model and builds the response to send back. */
+export function handleQuizToolCall(call: FunctionCall): QuizToolOutcome {
+  const args = call.args ?? {};
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+  if (call.name === FINISH_QUIZ) {
+    const summary = String(args.summary ?? '').trim();
+    return { response: respond({ output: 'Quiz summary shown to the trainee.' }), summary };
+  }
+
+  const score = Number(args.score);
+  if (!Number.isFinite(score) || typeof args.module !== 'string' || typeof args.question !== 'string') {
+    return { response: respond({ error: 'module, question and a numeric score are required.' }) };
+  }
+  const answer: QuizAnswer = {
+    module: args.module,
+    question: args.question,
+    answer: String(args.answer ?? ''),
+    score: Math.max(0, Math.min(QUIZ_MAX_SCORE, Math.round(score))),
+    feedback: String(args.feedback ?? ''),
+    timestamp: new Date(),
+  };
+  return { response: respond({ output: 'Answer recorded.' }), answer };
+}
+
+export function scoreByModule(answers: QuizAnswer[], modules: string[]): ModuleScore[] {
+  // Keep the course order, then any module names the model used that the course did not list
+  const names = [...modules, ...answers.map(a => a.module).filter(m => !modules.includes(m))];
+  return [...new Set(names)].map(module => {
+    const scores = answers.filter(a => a.module === module).map(a => a.score);
+    return {
+      module,
+      answered: scores.length,
+      averageScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null,
+    };
+  });
+}
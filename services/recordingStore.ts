@@ -0,0 +1,18 @@
+import { SessionRecording } from '../types';
+import { RECORDING_STORE, getStore, requestToPromise } from './database';
+
+export async function saveRecording(recording: SessionRecording): Promise<void> {
+  const store = await getStore(RECORDING_STORE, 'readwrite');
+  await requestToPromise(store.put(recording));
+}
+
+export async function getRecording(sessionId: string): Promise<SessionRecording | null> {
+  const store = await getStore(RECORDING_STORE, 'readonly');
+  const recording = await requestToPromise<SessionRecording | undefined>(store.get(sessionId));
+  return recording ?? null;
+}
+
+export async function deleteRecording(sessionId: string): Promise<void> {
+  const store = await getStore(RECORDING_STORE, 'readwrite');
+  await requestToPromise(store.delete(sessionId));
+}
@@ -0,0 +1,14 @@
+import { SessionErrorKind } from '../types';
+
+// getUserMedia rejects with these when the user or browser policy blocks the microphone
+const PERMISSION_ERRORS = ['NotAllowedError', 'PermissionDeniedError', 'SecurityError'];
+// ...and with these when there is no usable microphone
+const DEVICE_ERRORS = ['NotFoundError', 'DevicesNotFoundError', 'NotReadableError', 'TrackStartError', 'OverconstrainedError'];
+
+/** Tells microphone problems apart from token server and Live API failures. */
+export function classifySessionError(err: unknown): SessionErrorKind {
+  const name = err instanceof Error || err instanceof DOMException ? err.name : '';
+  if (PERMISSION_ERRORS.includes(name)) return 'mic-denied';
+  if (DEVICE_ERRORS.includes(name)) return 'mic-unavailable';
+  return 'api';
+}
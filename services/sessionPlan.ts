@@ -0,0 +1,199 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { SessionPlan, SessionPlanActivity } from '../types';
+
+// The course's final project is a 2-hour session
+export const PLAN_DURATION_MINUTES = 120;
+
+const SET_OVERVIEW = 'setPlanOverview';
+const SET_ACTIVITIES = 'setPlanActivities';
+const SET_ASSESSMENT = 'setPlanAssessment';
+const PLAN_FUNCTIONS = [SET_OVERVIEW, SET_ACTIVITIES, SET_ASSESSMENT];
+
+export const EMPTY_SESSION_PLAN: SessionPlan = {
+  title: '',
+  subject: '',
+  gradeLevel: '',
+  goals: [],
+  activities: [],
+  assessment: '',
+};
+
+export function createPlanActivity(fields: Partial<Omit<SessionPlanActivity, 'id'>> = {}): SessionPlanActivity {
+  return {
+    id: crypto.randomUUID(),
+    title: fields.title ?? '',
+    minutes: fields.minutes ?? 15,
+    description: fields.description ?? '',
+    aiTools: fields.aiTools ?? [],
+  };
+}
+
+export function totalMinutes(plan: SessionPlan) {
+  return plan.activities.reduce((sum, a) => sum + a.minutes, 0);
+}
+
+export function hasPlanContent(plan: SessionPlan) {
+  return Boolean(plan.title || plan.subject || plan.gradeLevel || plan.goals.length || plan.activities.length || plan.assessment);
+}
+
+export function buildPlanFunctionDeclarations(tools: string[]): FunctionDeclaration[] {
+  return [
+    {
+      name: SET_OVERVIEW,
+      description: 'Fills in what is known about the session being planned. Only send the fields you have learned or changed.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: 'Short title for the session.' },
+          subject: { type: Type.STRING, description: 'Subject the trainee teaches in this session.' },
+          gradeLevel: { type: Type.STRING, description: 'Grade level or age group of the students.' },
+          goals: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: 'Learning goals for the students, one per item. Replaces the current list.',
+          },
+        },
+      },
+    },
+    {
+      name: SET_ACTIVITIES,
+      description: `Replaces the sequence of activities. Their durations should add up to ${PLAN_DURATION_MINUTES} minutes.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          activities: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                minutes: { type: Type.INTEGER, description: 'Duration in minutes.' },
+                description: { type: Type.STRING, description: 'What the teacher and students do.' },
+                aiTools: {
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING },
+                  description: `AI tools used in the activity${tools.length > 0 ? `, preferably from the course: ${tools.join(', ')}` : ''}.`,
+                },
+              },
+              required: ['title', 'minutes', 'description'],
+            },
+          },
+        },
+        required: ['activities'],
+      },
+    },
+    {
+      name: SET_ASSESSMENT,
+      description: 'Sets how student learning is assessed in the session.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          assessment: { type: Type.STRING, description: 'Assessment method, criteria and instruments.' },
+        },
+        required: ['assessment'],
+      },
+    },
+  ];
+}
+
+export function isPlanFunction(name: string | undefined) {
+  return name !== undefined && PLAN_FUNCTIONS.includes(name);
+}
+
+const toStringList = (value: unknown) =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+export interface PlanToolOutcome {
+  response: FunctionResponse;
+  plan: SessionPlan;
+}
+
+/**
+ * Applies a planner function call to the plan. The response carries the whole plan back so
+ * the model also sees any edits the trainee made in the editor.
+ */
+export function handlePlanToolCall(call: FunctionCall, plan: SessionPlan): PlanToolOutcome {
+  const args = call.args ?? {};
+  let next = plan;
+
+  if (call.name === SET_OVERVIEW) {
+    next = {
+      ...plan,
+      ...(typeof args.title === 'string' && { title: args.title.trim() }),
+      ...(typeof args.subject === 'string' && { subject: args.subject.trim() }),
+      ...(typeof args.gradeLevel === 'string' && { gradeLevel: args.gradeLevel.trim() }),
+      ...(Array.isArray(args.goals) && { goals: toStringList(args.goals) }),
+    };
+  } else if (call.name === SET_ACTIVITIES) {
+    if (!Array.isArray(args.activities)) {
+      return { response: { id: call.id, name: call.name, response: { error: 'activities must be a list.' } }, plan };
+    }
+    const activities = (args.activities as Record<string, unknown>[]).map(a => createPlanActivity({
+      title: String(a?.title ?? '').trim(),
+      minutes: Math.max(0, Math.round(Number(a?.minutes) || 0)),
+      description: String(a?.description ?? '').trim(),
+      aiTools: toStringList(a?.aiTools),
+    }));
+    next = { ...plan, activities };
+  } else if (call.name === SET_ASSESSMENT) {
+    next = { ...plan, assessment: String(args.assessment ?? '').trim() };
+  }
+
+  const minutes = totalMinutes(next);
+  return {
+    response: {
+      id: call.id,
+      name: call.name,
+      response: {
+        output: 'Plan updated and shown to the trainee.',
+        totalMinutes: minutes,
+        ...(next.activities.length > 0 && minutes !== PLAN_DURATION_MINUTES && {
+          warning: `Activities add up to ${minutes} minutes instead of ${PLAN_DURATION_MINUTES}.`,
+        }),
+        // Activity IDs only matter to the editor
+        plan: { ...next, activities: next.activities.map(({ id, ...activity }) => activity) },
+      },
+    },
+    plan: next,
+  };
+}
+
+// --- Export ---
+export interface PlanExportLabels {
+  untitled: string;
+  subject: string;
+  gradeLevel: string;
+  duration: string;
+  goals: string;
+  activities: string;
+  aiTools: string;
+  assessment: string;
+}
+
+const formatClock = (minutes: number) => `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+
+export function planToMarkdown(plan: SessionPlan, labels: PlanExportLabels): string {
+  const lines = [`# ${plan.title || labels.untitled}`, ''];
+  if (plan.subject) lines.push(`**${labels.subject}:** ${plan.subject}  `);
+  if (plan.gradeLevel) lines.push(`**${labels.gradeLevel}:** ${plan.gradeLevel}  `);
+  lines.push(`**${labels.duration}:** ${totalMinutes(plan)} / ${PLAN_DURATION_MINUTES} min`, '');
+
+  if (plan.goals.length > 0) {
+    lines.push(`## ${labels.goals}`, '', ...plan.goals.map(g => `- ${g}`), '');
+  }
+  if (plan.activities.length > 0) {
+    lines.push(`## ${labels.activities}`, '');
+    let start = 0;
+    plan.activities.forEach((activity, i) => {
+      const end = start + activity.minutes;
+      lines.push(`### ${i + 1}. ${activity.title} (${formatClock(start)}–${formatClock(end)}, ${activity.minutes} min)`, '');
+      if (activity.description) lines.push(activity.description, '');
+      if (activity.aiTools.length > 0) lines.push(`*${labels.aiTools}:* ${activity.aiTools.join(', ')}`, '');
+      start = end;
+    });
+  }
+  if (plan.assessment) {
+    lines.push(`## ${labels.assessment}`, '', plan.assessment, '');
+  }
+  return lines.join('\n');
+}
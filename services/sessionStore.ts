@@ -0,0 +1,83 @@
+import { SessionSearchResult, TranscriptionEntry, TutorSession } from '../types';
+import { SESSION_STORE, getStore, requestToPromise } from './database';
+import { stripDiacritics } from '../utils/text';
+
+const SNIPPET_RADIUS = 60;
+const RESUME_SUMMARY_CHARS = 4000;
+const RESUME_ANSWER_CHARS = 300;
+
+export async function saveSession(session: TutorSession): Promise<void> {
+  const store = await getStore(SESSION_STORE, 'readwrite');
+  await requestToPromise(store.put(session));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const store = await getStore(SESSION_STORE, 'readwrite');
+  await requestToPromise(store.delete(id));
+}
+
+export async function listSessions(): Promise<TutorSession[]> {
+  const store = await getStore(SESSION_STORE, 'readonly');
+  const sessions = await requestToPromise<TutorSession[]>(store.getAll());
+  return sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+// --- Full-text search ---
+function normalize(text: string) {
+  return stripDiacritics(text).toLowerCase();
+}
+
+function buildSnippet(text: string, index: number, length: number) {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+export function searchSessions(sessions: TutorSession[], query: string): SessionSearchResult[] {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return sessions.map(session => ({ session, snippet: null }));
+  }
+
+  const results: SessionSearchResult[] = [];
+  for (const session of sessions) {
+    const haystack = normalize([session.courseTitle, ...session.entries.map(e => e.text)].join('\n'));
+    if (!terms.every(term => haystack.includes(term))) continue;
+
+    let snippet: string | null = null;
+    for (const entry of session.entries) {
+      // Stripping diacritics keeps NFC text the same length, so the index maps back to the original
+      const index = normalize(entry.text).indexOf(terms[0]);
+      if (index !== -1) {
+        snippet = buildSnippet(entry.text, index, terms[0].length);
+        break;
+      }
+    }
+    results.push({ session, snippet });
+  }
+  return results;
+}
+
+// --- Resume ---
+function truncate(text: string, maxChars: number) {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+export function summarizeTranscript(entries: TranscriptionEntry[], maxChars: number = RESUME_SUMMARY_CHARS): string {
+  const lines = entries.map(entry =>
+    entry.role === 'user'
+      ? `Trainee: ${entry.text}`
+      : `Tutor: ${truncate(entry.text, RESUME_ANSWER_CHARS)}`,
+  );
+
+  // Keep the most recent turns when the transcript is too long
+  const kept: string[] = [];
+  let total = 0;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (total + lines[i].length > maxChars) break;
+    kept.unshift(lines[i]);
+    total += lines[i].length;
+  }
+  const omitted = lines.length - kept.length;
+  return omitted > 0 ? [`(${omitted} earlier turn(s) omitted)`, ...kept].join('\n') : kept.join('\n');
+}
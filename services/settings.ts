@@ -0,0 +1,37 @@
+import { UserSettings } from '../types';
+import { MODEL_NAME } from '../constants';
+
+const STORAGE_KEY = 'tutor-voz.settings';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  voiceName: '',
+  playbackRate: 1,
+  volume: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  modelName: MODEL_NAME,
+  captions: false,
+};
+
+export const PLAYBACK_RATE_RANGE = { min: 0.75, max: 1.5, step: 0.05 };
+
+export function loadSettings(): UserSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Fields added in later versions fall back to their defaults
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch (err) {
+    console.warn('Ignoring unreadable stored settings:', err);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: UserSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not persist settings:', err);
+  }
+}
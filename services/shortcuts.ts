@@ -0,0 +1,21 @@
+export type ShortcutAction = 'toggle-session' | 'toggle-mute' | 'toggle-captions' | 'focus-message' | 'show-shortcuts';
+
+// Alt plus a letter, matched on the physical key so layouts and macOS Option characters do not matter
+export const SHORTCUTS: { action: ShortcutAction; code: string; keys: string }[] = [
+  { action: 'toggle-session', code: 'KeyS', keys: 'Alt+S' },
+  { action: 'toggle-mute', code: 'KeyM', keys: 'Alt+M' },
+  { action: 'toggle-captions', code: 'KeyC', keys: 'Alt+C' },
+  { action: 'focus-message', code: 'KeyT', keys: 'Alt+T' },
+  { action: 'show-shortcuts', code: 'Slash', keys: 'Alt+/' },
+];
+
+type ShortcutEvent = Pick<KeyboardEvent, 'code' | 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey'>;
+
+export function matchShortcut(e: ShortcutEvent): ShortcutAction | null {
+  if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return null;
+  return SHORTCUTS.find(shortcut => shortcut.code === e.code)?.action ?? null;
+}
+
+export function shortcutKeys(action: ShortcutAction) {
+  return SHORTCUTS.find(shortcut => shortcut.action === action)!.keys;
+}
@@ -0,0 +1,40 @@
+import { SpeakingState } from '../types';
+
+export type SpeakingEvent =
+  // A voiced microphone frame was sent, or the server transcribed user speech
+  | { type: 'user-voice' }
+  | { type: 'user-silence' }
+  // The first model audio chunk was scheduled / the last scheduled chunk finished playing
+  | { type: 'model-audio-start' }
+  | { type: 'model-audio-end' }
+  // serverContent.interrupted: the user talked over the model
+  | { type: 'interrupted' }
+  // The interrupted indicator has been shown long enough
+  | { type: 'settle' }
+  | { type: 'reset' };
+
+export const INITIAL_SPEAKING_STATE: SpeakingState = 'listening';
+
+// How long the interrupted state is shown before falling back to listening
+export const INTERRUPTED_DISPLAY_MS = 1200;
+
+export function speakingStateReducer(state: SpeakingState, event: SpeakingEvent): SpeakingState {
+  switch (event.type) {
+    case 'user-voice':
+      // Residual echo of the model's own voice must not flip the state while it is talking,
+      // and an interruption stays visible until it settles
+      return state === 'model-speaking' || state === 'interrupted' ? state : 'user-speaking';
+    case 'user-silence':
+      return state === 'user-speaking' ? 'listening' : state;
+    case 'model-audio-start':
+      return 'model-speaking';
+    case 'model-audio-end':
+      return state === 'model-speaking' ? 'listening' : state;
+    case 'interrupted':
+      return 'interrupted';
+    case 'settle':
+      return state === 'interrupted' ? 'listening' : state;
+    case 'reset':
+      return INITIAL_SPEAKING_STATE;
+  }
+}
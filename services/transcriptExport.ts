@@ -0,0 +1,231 @@
+import { Locale, TranscriptExportFormat, TranscriptExportMetadata, TranscriptionEntry } from '../types';
+import { slugify } from '../utils/text';
+
+const MIN_CUE_SECONDS = 1.5;
+const WORDS_PER_SECOND = 2.5;
+
+// UI-language wording for the exported files
+export interface TranscriptExportLabels {
+  trainee: string;
+  tutor: string;
+  sessionStarted: string;
+  sessionEnded: string;
+  messages: string;
+  sessionId: string;
+  popupBlocked: string;
+}
+
+const roleLabel = (role: TranscriptionEntry['role'], labels: TranscriptExportLabels) =>
+  role === 'user' ? labels.trainee : labels.tutor;
+
+// Dates follow the UI language, like the labels around them
+const formatDateTime = (date: Date, locale: Locale) =>
+  date.toLocaleString(locale, { dateStyle: 'long', timeStyle: 'short' });
+
+const formatTime = (date: Date, locale: Locale) =>
+  date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// --- Markdown / JSON ---
+export function toMarkdown(
+  meta: TranscriptExportMetadata,
+  entries: TranscriptionEntry[],
+  labels: TranscriptExportLabels,
+  locale: Locale,
+): string {
+  const header = [
+    `# ${meta.courseTitle}`,
+    '',
+    `- **${labels.sessionStarted}:** ${formatDateTime(meta.startedAt, locale)}`,
+    `- **${labels.sessionEnded}:** ${formatDateTime(meta.endedAt, locale)}`,
+    `- **${labels.messages}:** ${entries.length}`,
+    ...(meta.sessionId ? [`- **${labels.sessionId}:** ${meta.sessionId}`] : []),
+    '',
+    '---',
+    '',
+  ];
+  const body = entries.map(entry =>
+    `**${roleLabel(entry.role, labels)}** _(${formatTime(entry.timestamp, locale)})_\n\n${entry.text}\n`,
+  );
+  return [...header, ...body].join('\n');
+}
+
+export function toJson(meta: TranscriptExportMetadata, entries: TranscriptionEntry[]): string {
+  return JSON.stringify(
+    {
+      courseTitle: meta.courseTitle,
+      sessionId: meta.sessionId ?? null,
+      startedAt: meta.startedAt.toISOString(),
+      endedAt: meta.endedAt.toISOString(),
+      entries: entries.map(entry => ({
+        role: entry.role,
+        text: entry.text,
+        timestamp: entry.timestamp.toISOString(),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+// --- Captions ---
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Entries only carry the time they were completed, so each cue starts at that offset
+ * from the session start (or when the previous cue ends, whichever is later) and lasts
+ * for an estimate based on its length.
+ */
+function buildCues(meta: TranscriptExportMetadata, entries: TranscriptionEntry[], labels: TranscriptExportLabels): Cue[] {
+  const origin = Math.min(meta.startedAt.getTime(), ...entries.map(e => e.timestamp.getTime()));
+  let previousEnd = 0;
+
+  return entries.map(entry => {
+    const start = Math.max((entry.timestamp.getTime() - origin) / 1000, previousEnd);
+    const words = entry.text.split(/\s+/).filter(Boolean).length;
+    const end = start + Math.max(MIN_CUE_SECONDS, words / WORDS_PER_SECOND);
+    previousEnd = end;
+    return { start, end, text: `${roleLabel(entry.role, labels)}: ${entry.text}` };
+  });
+}
+
+function formatCueTime(seconds: number, separator: ',' | '.') {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${separator}${pad(ms, 3)}`;
+}
+
+// SRT has no metadata block, so the header only appears in the WebVTT variant
+export function toSrt(meta: TranscriptExportMetadata, entries: TranscriptionEntry[], labels: TranscriptExportLabels): string {
+  return buildCues(meta, entries, labels)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toVtt(
+  meta: TranscriptExportMetadata,
+  entries: TranscriptionEntry[],
+  labels: TranscriptExportLabels,
+  locale: Locale,
+): string {
+  const header = [
+    `WEBVTT - ${meta.courseTitle.replace(/-->/g, '->')}`,
+    '',
+    'NOTE',
+    `${labels.sessionStarted}: ${formatDateTime(meta.startedAt, locale)}`,
+    `${labels.sessionEnded}: ${formatDateTime(meta.endedAt, locale)}`,
+    ...(meta.sessionId ? [`${labels.sessionId}: ${meta.sessionId}`] : []),
+    '',
+  ];
+  const cues = buildCues(meta, entries, labels).map(
+    cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`,
+  );
+  return [...header, ...cues].join('\n');
+}
+
+// --- Printable PDF ---
+function toPrintableHtml(
+  meta: TranscriptExportMetadata,
+  entries: TranscriptionEntry[],
+  labels: TranscriptExportLabels,
+  locale: Locale,
+): string {
+  const rows = entries
+    .map(entry => `
+      <div class="entry ${entry.role}">
+        <p class="meta">${escapeHtml(roleLabel(entry.role, labels))} · ${escapeHtml(formatTime(entry.timestamp, locale))}</p>
+        <p>${escapeHtml(entry.text)}</p>
+      </div>`)
+    .join('');
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(meta.courseTitle)}</title>
+  <style>
+    body { font-family: 'Inter', system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+    h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+    .header { border-bottom: 1px solid #e2e8f0; padding-bottom: 1rem; margin-bottom: 1.5rem; font-size: 0.85rem; color: #475569; }
+    .entry { margin-bottom: 1rem; page-break-inside: avoid; }
+    .entry p { margin: 0.2rem 0; line-height: 1.5; white-space: pre-wrap; }
+    .entry .meta { font-size: 0.75rem; font-weight: 600; color: #64748b; }
+    .entry.user .meta { color: #4f46e5; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(meta.courseTitle)}</h1>
+  <div class="header">
+    <p>${escapeHtml(labels.sessionStarted)}: ${escapeHtml(formatDateTime(meta.startedAt, locale))}</p>
+    <p>${escapeHtml(labels.sessionEnded)}: ${escapeHtml(formatDateTime(meta.endedAt, locale))}</p>
+    <p>${escapeHtml(labels.messages)}: ${entries.length}</p>
+    ${meta.sessionId ? `<p>${escapeHtml(labels.sessionId)}: ${escapeHtml(meta.sessionId)}</p>` : ''}
+  </div>
+  ${rows}
+</body>
+</html>`;
+}
+
+function printAsPdf(
+  meta: TranscriptExportMetadata,
+  entries: TranscriptionEntry[],
+  labels: TranscriptExportLabels,
+  locale: Locale,
+) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error(labels.popupBlocked);
+  }
+  printWindow.document.write(toPrintableHtml(meta, entries, labels, locale));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+// --- Download ---
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function buildExportFileName(meta: TranscriptExportMetadata, extension: string) {
+  const stamp = meta.startedAt.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  return `${slugify(meta.courseTitle)}-${stamp}.${extension}`;
+}
+
+export function exportTranscript(
+  format: TranscriptExportFormat,
+  meta: TranscriptExportMetadata,
+  entries: TranscriptionEntry[],
+  labels: TranscriptExportLabels,
+  locale: Locale,
+) {
+  switch (format) {
+    case 'markdown':
+      return downloadFile(toMarkdown(meta, entries, labels, locale), buildExportFileName(meta, 'md'), 'text/markdown;charset=utf-8');
+    case 'json':
+      return downloadFile(toJson(meta, entries), buildExportFileName(meta, 'json'), 'application/json');
+    case 'srt':
+      return downloadFile(toSrt(meta, entries, labels), buildExportFileName(meta, 'srt'), 'application/x-subrip;charset=utf-8');
+    case 'vtt':
+      return downloadFile(toVtt(meta, entries, labels, locale), buildExportFileName(meta, 'vtt'), 'text/vtt;charset=utf-8');
+    case 'pdf':
+      return printAsPdf(meta, entries, labels, locale);
+  }
+}
@@ -0,0 +1,72 @@
+import { Blob } from '@google/genai';
+import { VideoSource } from '../types';
+
+// The Live API samples video at about one frame per second, so sending more only costs bandwidth
+export const VIDEO_FRAME_INTERVAL_MS = 1000;
+// Long edge of the frames sent; enough to read a workflow editor without huge payloads
+const MAX_FRAME_EDGE = 1024;
+const JPEG_QUALITY = 0.7;
+
+export interface VideoCapture {
+  source: VideoSource;
+  // For the local preview
+  stream: MediaStream;
+  stop: () => void;
+}
+
+function requestStream(source: VideoSource): Promise<MediaStream> {
+  if (source === 'screen') {
+    return navigator.mediaDevices.getDisplayMedia({ video: { frameRate: { ideal: 5 } }, audio: false });
+  }
+  return navigator.mediaDevices.getUserMedia({
+    video: { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: 'user' },
+    audio: false,
+  });
+}
+
+/**
+ * Captures the screen or camera and delivers a JPEG frame every VIDEO_FRAME_INTERVAL_MS.
+ * `onEnded` fires when the browser ends the capture itself, e.g. from its "Stop sharing" bar.
+ */
+export async function startVideoCapture(
+  source: VideoSource,
+  onFrame: (frame: Blob) => void,
+  onEnded: () => void,
+): Promise<VideoCapture> {
+  const stream = await requestStream(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+
+  const grabFrame = () => {
+    // The first frames can arrive before the track knows its size
+    if (video.videoWidth === 0 || video.videoHeight === 0) return;
+    const scale = Math.min(1, MAX_FRAME_EDGE / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    onFrame({ data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/jpeg' });
+  };
+  const timer = window.setInterval(grabFrame, VIDEO_FRAME_INTERVAL_MS);
+
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(timer);
+    stream.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  };
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+    stop();
+    onEnded();
+  });
+
+  return { source, stream, stop };
+}
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CourseConfig, QuestionInsight, TranscriptionEntry, TutorSession } from '../types';
+import { buildCourseAnalytics, createModuleMatcher, questionsToCsv, redactPii, summaryToCsv } from '../services/analytics';
+
+const MODULES = ['Prompt engineering', 'Spreadsheet automation'];
+
+const course: CourseConfig = {
+  id: 'course-a',
+  context: '',
+  systemInstruction: '',
+  quickQuestions: { en: [{ text: 'What will I learn?', icon: '📚' }], 'pt-PT': [] },
+  voiceName: 'Puck',
+  highlights: { title: 'Course A', duration: '10h', tools: [], evaluation: [], modules: MODULES },
+  sections: [
+    { id: 'module-1', title: MODULES[0], text: 'Writing prompts, few-shot examples and system instructions for chatbots.' },
+    { id: 'module-2', title: MODULES[1], text: 'Formulas, macros and scripts that fill in grading spreadsheets.' },
+  ],
+};
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 5, 9, minute));
+const user = (text: string, extra: Partial<TranscriptionEntry> = {}): TranscriptionEntry =>
+  ({ role: 'user', text, timestamp: at(1), ...extra });
+const model = (text: string): TranscriptionEntry => ({ role: 'model', text, timestamp: at(2) });
+
+function session(id: string, entries: TranscriptionEntry[], minutes: number, courseId = course.id): TutorSession {
+  return { id, courseId, courseTitle: 'Course A', startedAt: at(0), endedAt: at(minutes), entries };
+}
+
+test('redactPii removes contact details, identifiers and introduced names', () => {
+  assert.equal(redactPii('Write to ana.silva@example.pt or see https://example.pt/x'), 'Write to [email] or see [url]');
+  assert.equal(redactPii('Ligue para +351 912 345 678'), 'Ligue para [phone/id]');
+  assert.equal(redactPii('My IBAN is PT50 0002 0123 1234 5678 9015 4'), 'My IBAN is [iban]');
+  assert.equal(redactPii('card 12345678'), 'card [number]');
+  assert.equal(redactPii('my name is ana Silva and I teach maths'), 'my name is [name] and I teach maths');
+  assert.equal(redactPii('Olá, chamo-me João Pereira.'), 'Olá, chamo-me [name].');
+  assert.equal(redactPii('How do few-shot prompts work?'), 'How do few-shot prompts work?');
+});
+
+test('createModuleMatcher maps questions to the module they share keywords with', () => {
+  const match = createModuleMatcher(course);
+  assert.equal(match('Can you give few-shot prompt examples?'), MODULES[0]);
+  assert.equal(match('Como automatizo as macros da folha de cálculo?'), MODULES[1]);
+  assert.equal(match('What time is lunch?'), null);
+});
+
+test('buildCourseAnalytics counts sessions, questions and quick-question clicks for one course', () => {
+  const sessions = [
+    session('s1', [
+      user('What will I learn?', { source: 'quick-question' }),
+      model('Prompting and spreadsheets.'),
+      user('How do I write few-shot prompts? Email me at ana@example.pt'),
+      model("I'm not sure the course covers that."),
+      user('ok'),
+    ], 10),
+    session('s2', [
+      user('What will I learn?', { source: 'quick-question' }),
+      user('Which macros fill in grading spreadsheets?'),
+    ], 20),
+    session('other', [user('Is this another course?')], 5, 'course-b'),
+  ];
+  const analytics = buildCourseAnalytics(sessions, course);
+
+  assert.equal(analytics.sessionCount, 2);
+  assert.equal(analytics.totalMinutes, 30);
+  assert.equal(analytics.medianMinutes, 15);
+  assert.deepEqual(
+    analytics.questions.map(q => [q.sessionNumber, q.module, q.status]),
+    [[1, null, 'answered'], [1, MODULES[0], 'low-confidence'], [2, null, 'unanswered'], [2, MODULES[1], 'unanswered']],
+  );
+  assert.match(analytics.questions[1].question, /\[email\]$/);
+  assert.deepEqual(analytics.quickQuestions[0], { text: 'What will I learn?', clicks: 2, sessions: 2 });
+});
+
+test('CSV cells that start like a formula are kept as text', () => {
+  const question: QuestionInsight = {
+    sessionNumber: 1,
+    askedAt: at(1),
+    module: null,
+    question: '=HYPERLINK("evil","click") please?',
+    status: 'unanswered',
+    source: 'typed',
+  };
+  const csv = questionsToCsv([question, { ...question, question: '-2+3 is what?' }, { ...question, question: '@SUM(A1)' }]);
+  const lines = csv.slice(1).split('\r\n');
+
+  assert.ok(lines[1].endsWith(`,"'=HYPERLINK(""evil"",""click"") please?"`));
+  assert.ok(lines[2].endsWith(",'-2+3 is what?"));
+  assert.ok(lines[3].endsWith(",'@SUM(A1)"));
+  // Numbers are left alone
+  assert.match(summaryToCsv(buildCourseAnalytics([], course)), /\r\nsessions,,0,\r\n/);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBlob, decode, decodeAudioData, encode } from '../services/audioCodec';
+import { CAPTURE_SAMPLE_RATE } from '../services/audioCapture';
+import { createFakeAudioContext } from './fakes/fakeAudioContext';
+
+test('encode and decode round-trip every byte value', () => {
+  const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+  assert.deepEqual(decode(encode(bytes)), bytes);
+});
+
+test('createBlob encodes only the view of the PCM buffer it is given', () => {
+  const backing = Int16Array.from([1, 2, 3, 4]);
+  const blob = createBlob(backing.subarray(1, 3));
+  assert.equal(blob.mimeType, `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`);
+  assert.deepEqual(new Int16Array(decode(blob.data!).buffer), Int16Array.from([2, 3]));
+});
+
+test('decodeAudioData scales PCM16 to floats and splits interleaved channels', async () => {
+  const { ctx } = createFakeAudioContext();
+  const pcm = Int16Array.from([-32768, 16384, 0, -16384]);
+  const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), ctx, 24000, 2);
+
+  assert.equal(buffer.numberOfChannels, 2);
+  assert.equal(buffer.length, 2);
+  assert.deepEqual([...buffer.getChannelData(0)], [-1, 0]);
+  assert.deepEqual([...buffer.getChannelData(1)], [0.5, -0.5]);
+});
+
+test('decodeAudioData respects the byte offset of its input', async () => {
+  const { ctx } = createFakeAudioContext();
+  const bytes = new Uint8Array(new Int16Array([0, 8192]).buffer);
+  const buffer = await decodeAudioData(bytes.subarray(2), ctx, 24000, 1);
+  assert.deepEqual([...buffer.getChannelData(0)], [0.25]);
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OUTPUT_SAMPLE_RATE, createPlaybackScheduler } from '../services/audioPlayback';
+import { decode, decodeAudioData } from '../services/audioCodec';
+import { createFakeAudioContext } from './fakes/fakeAudioContext';
+import { audioChunk } from './fakes/fakeLiveClient';
+
+const normal = { playbackRate: 1, volume: 1 };
+
+async function chunk(ctx: BaseAudioContext, seconds: number) {
+  const message = audioChunk(new Array(Math.round(seconds * OUTPUT_SAMPLE_RATE)).fill(1000));
+  const data = message.serverContent!.modelTurn!.parts![0].inlineData!.data!;
+  return decodeAudioData(decode(data), ctx, OUTPUT_SAMPLE_RATE, 1);
+}
+
+test('chunks play back to back from the current time', async () => {
+  const { ctx, sources, setTime } = createFakeAudioContext();
+  const scheduler = createPlaybackScheduler(ctx, {} as AudioNode, () => {});
+  setTime(2);
+
+  assert.equal(scheduler.play(await chunk(ctx, 0.5), normal), 2);
+  assert.equal(scheduler.play(await chunk(ctx, 0.25), normal), 2.5);
+  assert.deepEqual(sources.map(s => s.startedAt), [2, 2.5]);
+  assert.equal(scheduler.isPlaying(), true);
+});
+
+test('a chunk arriving after the queue drained starts now, not in the past', async () => {
+  const { ctx, setTime } = createFakeAudioContext();
+  const scheduler = createPlaybackScheduler(ctx, {} as AudioNode, () => {});
+
+  scheduler.play(await chunk(ctx, 0.5), normal);
+  setTime(3);
+  assert.equal(scheduler.play(await chunk(ctx, 0.5), normal), 3);
+});
+
+test('playback rate shortens the slot each chunk takes and volume sets the gain', async () => {
+  const { ctx, sources } = createFakeAudioContext();
+  const scheduler = createPlaybackScheduler(ctx, {} as AudioNode, () => {});
+  const fast = { playbackRate: 2, volume: 0.5 };
+
+  scheduler.play(await chunk(ctx, 1), fast);
+  assert.equal(scheduler.play(await chunk(ctx, 1), fast), 0.5);
+  assert.equal(sources[0].playbackRate.value, 2);
+  assert.equal(sources[0].gain, 0.5);
+});
+
+test('onIdle runs once the last queued chunk ends', async () => {
+  const { ctx, sources } = createFakeAudioContext();
+  let idle = 0;
+  const scheduler = createPlaybackScheduler(ctx, {} as AudioNode, () => idle++);
+
+  scheduler.play(await chunk(ctx, 0.5), normal);
+  scheduler.play(await chunk(ctx, 0.5), normal);
+  sources[0].finish();
+  assert.equal(idle, 0);
+  sources[1].finish();
+  assert.equal(idle, 1);
+  assert.equal(scheduler.isPlaying(), false);
+});
+
+test('interrupt stops queued audio and restarts the schedule', async () => {
+  const { ctx, sources, setTime } = createFakeAudioContext();
+  let idle = 0;
+  const scheduler = createPlaybackScheduler(ctx, {} as AudioNode, () => idle++);
+
+  scheduler.play(await chunk(ctx, 1), normal);
+  scheduler.play(await chunk(ctx, 1), normal);
+  setTime(0.5);
+  scheduler.interrupt();
+
+  assert.deepEqual(sources.map(s => s.stopped), [true, true]);
+  assert.equal(scheduler.isPlaying(), false);
+  assert.equal(scheduler.play(await chunk(ctx, 1), normal), 0.5);
+  assert.ok(idle > 0);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractHighlights } from '../services/courseDocument';
+import { sectionTitle, splitSections } from '../services/courseSections';
+import { MESSAGES } from '../i18n/messages';
+
+test('modules are read from a markdown "## Modules" list', () => {
+  const text = '# AI for Teachers\n\n## Modules\n\n1. Basics\n2. Prompting for lesson plans\n\n## Evaluation\n\n- Project: 100%\n';
+
+  assert.deepEqual(extractHighlights(text).modules, ['Basics', 'Prompting for lesson plans']);
+  assert.deepEqual(
+    splitSections(text).filter(s => s.id.startsWith('module-')).map(s => s.id),
+    ['module-1', 'module-2'],
+  );
+});
+
+test('modules are read from a Portuguese "MÓDULOS:" list', () => {
+  const text = 'IA na Educação\n\nMÓDULOS:\n1. Introdução à IA\n2. Ferramentas para professores\n\nAVALIAÇÃO:\n- Projeto: 100%\n';
+
+  assert.deepEqual(extractHighlights(text).modules, ['Introdução à IA', 'Ferramentas para professores']);
+});
+
+test('a numbered "Módulo 1" line is an item, not the list heading', () => {
+  const text = 'Programa\n\nMódulo 1: Introdução\nMódulo 2: Prática\n';
+
+  assert.deepEqual(extractHighlights(text).modules, ['Introdução', 'Prática']);
+});
+
+test('generated section titles follow the UI language; document headings are kept', () => {
+  const text = 'Intro text.\n\n## Modules\n\n1. Basics\n\n## Evaluation\n\n- Project: 100%\n';
+  const titles = (locale: 'en' | 'pt-PT') => splitSections(text).map(s => sectionTitle(s, MESSAGES[locale].citations));
+
+  assert.deepEqual(titles('en'), ['Overview', 'Module 1: Basics', 'Evaluation']);
+  assert.deepEqual(titles('pt-PT'), ['Visão geral', 'Módulo 1: Basics', 'Evaluation']);
+});
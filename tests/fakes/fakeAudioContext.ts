@@ -0,0 +1,92 @@
+export interface FakeBufferSource {
+  buffer: AudioBuffer | null;
+  playbackRate: { value: number };
+  gain: number;
+  startedAt: number | null;
+  stopped: boolean;
+  /** Plays the source to its end, firing `ended`. */
+  finish: () => void;
+}
+
+export interface FakeAudioContext {
+  ctx: BaseAudioContext;
+  sources: FakeBufferSource[];
+  setTime: (seconds: number) => void;
+}
+
+/** Just enough of an AudioContext for decoding and scheduling model audio. */
+export function createFakeAudioContext(): FakeAudioContext {
+  let currentTime = 0;
+  const sources: FakeBufferSource[] = [];
+
+  const createBuffer = (numberOfChannels: number, length: number, sampleRate: number) => {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return {
+      numberOfChannels,
+      length,
+      sampleRate,
+      duration: length / sampleRate,
+      getChannelData: (channel: number) => channels[channel],
+    } as unknown as AudioBuffer;
+  };
+
+  const createGain = () => {
+    const node = {
+      gain: { value: 1 },
+      connect: (destination: unknown) => destination,
+    };
+    return node;
+  };
+
+  const createBufferSource = () => {
+    const listeners: (() => void)[] = [];
+    let gainNode: ReturnType<typeof createGain> | null = null;
+    const fake: FakeBufferSource = {
+      buffer: null,
+      playbackRate: { value: 1 },
+      get gain() {
+        return gainNode?.gain.value ?? 1;
+      },
+      startedAt: null,
+      stopped: false,
+      finish: () => listeners.forEach(listener => listener()),
+    };
+    const node = {
+      get buffer() {
+        return fake.buffer;
+      },
+      set buffer(buffer: AudioBuffer | null) {
+        fake.buffer = buffer;
+      },
+      playbackRate: fake.playbackRate,
+      connect: (destination: ReturnType<typeof createGain>) => {
+        gainNode = destination;
+        return destination;
+      },
+      addEventListener: (type: string, listener: () => void) => {
+        if (type === 'ended') listeners.push(listener);
+      },
+      start: (when = 0) => {
+        fake.startedAt = when;
+      },
+      // Browsers fire `ended` for stopped sources too, a little later
+      stop: () => {
+        fake.stopped = true;
+        queueMicrotask(fake.finish);
+      },
+    };
+    sources.push(fake);
+    return node;
+  };
+
+  const ctx = {
+    get currentTime() {
+      return currentTime;
+    },
+    createBuffer,
+    createBufferSource,
+    createGain,
+  } as unknown as BaseAudioContext;
+
+  return { ctx, sources, setTime: seconds => { currentTime = seconds; } };
+}
@@ -0,0 +1,111 @@
+import { LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import { LiveClient, LiveSession } from '../../services/liveConnection';
+import { encode } from '../../services/audioCodec';
+
+export type ScriptStep =
+  | { message: LiveServerMessage }
+  | { error: string }
+  | { close: true };
+
+export interface ScriptedConnection {
+  // Makes the connect call reject instead of opening
+  fail?: Error;
+  steps?: ScriptStep[];
+}
+
+export interface FakeSession extends LiveSession {
+  params: LiveConnectParameters;
+  sent: { method: 'realtimeInput' | 'clientContent' | 'toolResponse'; params: unknown }[];
+  closed: boolean;
+}
+
+export interface FakeLiveClient {
+  client: LiveClient;
+  // Every connect call, including failed ones
+  connects: LiveConnectParameters[];
+  sessions: FakeSession[];
+}
+
+/**
+ * Stands in for `ai.live.connect`. Each call takes the next scripted connection: it opens,
+ * then replays the scripted messages, errors and closes in order on the next tick. Calls
+ * beyond the script open and stay quiet.
+ */
+export function createFakeLiveClient(script: ScriptedConnection[]): FakeLiveClient {
+  const connects: LiveConnectParameters[] = [];
+  const sessions: FakeSession[] = [];
+
+  const connect = async (params: LiveConnectParameters): Promise<LiveSession> => {
+    const scripted = script[connects.length] ?? {};
+    connects.push(params);
+    if (scripted.fail) throw scripted.fail;
+
+    const { callbacks } = params;
+    const closeEvent = () => new Event('close') as CloseEvent;
+    const session: FakeSession = {
+      params,
+      sent: [],
+      closed: false,
+      sendRealtimeInput: p => void session.sent.push({ method: 'realtimeInput', params: p }),
+      sendClientContent: p => void session.sent.push({ method: 'clientContent', params: p }),
+      sendToolResponse: p => void session.sent.push({ method: 'toolResponse', params: p }),
+      close: () => {
+        if (session.closed) return;
+        session.closed = true;
+        setImmediate(() => callbacks.onclose?.(closeEvent()));
+      },
+    };
+    sessions.push(session);
+
+    // Like the SDK, the socket is open by the time connect resolves
+    callbacks.onopen?.();
+    setImmediate(() => {
+      for (const step of scripted.steps ?? []) {
+        if (session.closed) return;
+        if ('message' in step) {
+          callbacks.onmessage(step.message);
+        } else if ('error' in step) {
+          callbacks.onerror?.(Object.assign(new Event('error'), { message: step.error }) as unknown as ErrorEvent);
+        } else {
+          session.closed = true;
+          callbacks.onclose?.(closeEvent());
+        }
+      }
+    });
+    return session;
+  };
+
+  return { client: { live: { connect } }, connects, sessions };
+}
+
+/** Lets pending callbacks, replays and promise chains run. */
+export async function settle() {
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setImmediate(resolve));
+}
+
+// --- Message builders ---
+const serverMessage = (fields: object) => fields as LiveServerMessage;
+
+export const audioChunk = (samples: number[]) => {
+  const pcm = Int16Array.from(samples);
+  return serverMessage({
+    serverContent: {
+      modelTurn: {
+        parts: [{ inlineData: { data: encode(new Uint8Array(pcm.buffer)), mimeType: 'audio/pcm;rate=24000' } }],
+      },
+    },
+  });
+};
+
+export const inputTranscription = (text: string) => serverMessage({ serverContent: { inputTranscription: { text } } });
+
+export const outputTranscription = (text: string) => serverMessage({ serverContent: { outputTranscription: { text } } });
+
+export const turnComplete = () => serverMessage({ serverContent: { turnComplete: true } });
+
+export const interrupted = () => serverMessage({ serverContent: { interrupted: true } });
+
+export const resumptionUpdate = (newHandle: string) =>
+  serverMessage({ sessionResumptionUpdate: { resumable: true, newHandle } });
+
+export const goAway = () => serverMessage({ goAway: { timeLeft: '10s' } });
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConnectionState } from '../types';
+import { MAX_RECONNECT_ATTEMPTS } from '../constants';
+import { LiveConnectionOptions, createLiveConnection, reconnectDelay } from '../services/liveConnection';
+import {
+  ScriptedConnection,
+  createFakeLiveClient,
+  goAway,
+  outputTranscription,
+  resumptionUpdate,
+  settle,
+} from './fakes/fakeLiveClient';
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  // Drops and retries are logged on purpose
+  mock.method(console, 'error', () => {});
+  mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+function setup(script: ScriptedConnection[], overrides: Partial<LiveConnectionOptions> = {}) {
+  const fake = createFakeLiveClient(script);
+  const states: string[] = [];
+  const handles: (string | null)[] = [];
+  const events: string[] = [];
+  const connection = createLiveConnection({
+    createClient: async () => fake.client,
+    buildParams: handle => {
+      handles.push(handle);
+      return { model: 'test-model', config: {} };
+    },
+    onStateChange: (state, reconnect) => {
+      states.push(reconnect ? `${state}#${reconnect.attempt}` : state);
+    },
+    onSession: session => events.push(session ? 'session' : 'no-session'),
+    onMessage: message => {
+      const text = message.serverContent?.outputTranscription?.text;
+      if (text) events.push(`message:${text}`);
+    },
+    onDrop: () => events.push('drop'),
+    ...overrides,
+  });
+  return { fake, connection, states, handles, events };
+}
+
+test('opening the connection reports CONNECTED and hands over the session', async () => {
+  const { fake, connection, states, events } = setup([{ steps: [{ message: outputTranscription('Hi') }] }]);
+  await connection.start();
+  await settle();
+
+  assert.deepEqual(states, [ConnectionState.CONNECTED]);
+  assert.deepEqual(events, ['session', 'message:Hi']);
+  assert.equal(fake.connects[0].model, 'test-model');
+  connection.stop();
+});
+
+test('a failed first connect rejects instead of reconnecting', async () => {
+  const { fake, connection, states } = setup([{ fail: new Error('403') }]);
+  await assert.rejects(connection.start(), /403/);
+  mock.timers.tick(60000);
+  await settle();
+  assert.deepEqual(states, []);
+  assert.equal(fake.connects.length, 1);
+});
+
+test('a dropped connection reconnects after the backoff delay with the latest handle', async () => {
+  const { fake, connection, states, handles, events } = setup([
+    { steps: [{ message: resumptionUpdate('handle-1') }, { message: resumptionUpdate('handle-2') }, { close: true }] },
+    {},
+  ]);
+  await connection.start();
+  await settle();
+
+  assert.deepEqual(states, [ConnectionState.CONNECTED, `${ConnectionState.RECONNECTING}#1`]);
+  assert.deepEqual(events, ['session', 'no-session', 'drop']);
+
+  mock.timers.tick(reconnectDelay(1) - 1);
+  await settle();
+  assert.equal(fake.connects.length, 1);
+
+  mock.timers.tick(1);
+  await settle();
+  assert.equal(fake.connects.length, 2);
+  assert.deepEqual(handles, [null, 'handle-2']);
+  assert.equal(fake.connects[1].config?.sessionResumption?.handle, 'handle-2');
+  assert.deepEqual(states.at(-1), ConnectionState.CONNECTED);
+  connection.stop();
+});
+
+test('errors count as drops, once per connection', async () => {
+  const { connection, states } = setup([{ steps: [{ error: 'socket error' }, { close: true }] }]);
+  await connection.start();
+  await settle();
+  assert.deepEqual(states, [ConnectionState.CONNECTED, `${ConnectionState.RECONNECTING}#1`]);
+  connection.stop();
+});
+
+test('goAway moves to a new connection straight away', async () => {
+  const { fake, connection, states, events } = setup([
+    { steps: [{ message: resumptionUpdate('h') }, { message: goAway() }, { message: outputTranscription('late') }] },
+  ]);
+  await connection.start();
+  await settle();
+  mock.timers.tick(0);
+  await settle();
+
+  assert.equal(fake.sessions[0].closed, true);
+  assert.equal(fake.connects.length, 2);
+  assert.equal(fake.connects[1].config?.sessionResumption?.handle, 'h');
+  assert.ok(!events.includes('message:late'));
+  assert.deepEqual(states, [ConnectionState.CONNECTED, `${ConnectionState.RECONNECTING}#1`, ConnectionState.CONNECTED]);
+  connection.stop();
+});
+
+test('backoff doubles per attempt and gives up with ERROR after the last one', async () => {
+  const script: ScriptedConnection[] = [
+    { steps: [{ close: true }] },
+    ...Array.from({ length: MAX_RECONNECT_ATTEMPTS }, () => ({ fail: new Error('unavailable') })),
+  ];
+  const { fake, connection, states } = setup(script);
+  await connection.start();
+  await settle();
+
+  for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+    mock.timers.tick(reconnectDelay(attempt));
+    await settle();
+  }
+
+  assert.equal(fake.connects.length, MAX_RECONNECT_ATTEMPTS + 1);
+  assert.deepEqual(states, [
+    ConnectionState.CONNECTED,
+    ...Array.from({ length: MAX_RECONNECT_ATTEMPTS }, (_, i) => `${ConnectionState.RECONNECTING}#${i + 1}`),
+    ConnectionState.ERROR,
+  ]);
+  assert.equal(reconnectDelay(2), 2 * reconnectDelay(1));
+});
+
+test('a successful reconnect resets the attempt count', async () => {
+  const { connection, states } = setup([{ steps: [{ close: true }] }, { steps: [{ close: true }] }, {}]);
+  await connection.start();
+  await settle();
+  mock.timers.tick(reconnectDelay(1));
+  await settle();
+  mock.timers.tick(reconnectDelay(1));
+  await settle();
+
+  assert.deepEqual(states, [
+    ConnectionState.CONNECTED,
+    `${ConnectionState.RECONNECTING}#1`,
+    ConnectionState.CONNECTED,
+    `${ConnectionState.RECONNECTING}#1`,
+    ConnectionState.CONNECTED,
+  ]);
+  connection.stop();
+});
+
+test('retryNow skips the rest of the backoff', async () => {
+  const { fake, connection } = setup([{ steps: [{ close: true }] }, {}]);
+  await connection.start();
+  await settle();
+  connection.retryNow();
+  await settle();
+  assert.equal(fake.connects.length, 2);
+  // The cancelled timer does not connect a third time
+  mock.timers.tick(reconnectDelay(1));
+  await settle();
+  assert.equal(fake.connects.length, 2);
+  connection.stop();
+});
+
+test('retryNow while a connect is on its way does not open a second session', async () => {
+  const { fake, connection } = setup([{ steps: [{ close: true }] }, { steps: [{ close: true }] }, {}]);
+  await connection.start();
+  await settle();
+  // Double click
+  connection.retryNow();
+  connection.retryNow();
+  await settle();
+  assert.equal(fake.connects.length, 2);
+
+  // Click just after the backoff timer fired
+  mock.timers.tick(reconnectDelay(1));
+  connection.retryNow();
+  await settle();
+  assert.equal(fake.connects.length, 3);
+
+  connection.stop();
+  await settle();
+  assert.ok(fake.sessions.every(session => session.closed));
+});
+
+test('a failing async message handler is reported instead of left unhandled', async () => {
+  const failure = new Error('decode failed');
+  const { connection } = setup([{ steps: [{ message: outputTranscription('Hi') }] }], {
+    onMessage: async () => {
+      throw failure;
+    },
+  });
+  await connection.start();
+  await settle();
+
+  const errors = (console.error as unknown as ReturnType<typeof mock.fn>).mock.calls.map(call => call.arguments);
+  assert.deepEqual(errors, [['Failed to handle Live API message:', failure]]);
+  connection.stop();
+});
+
+test('stopping closes the session without reconnecting', async () => {
+  const { fake, connection, states } = setup([{}]);
+  await connection.start();
+  connection.stop();
+  await settle();
+  mock.timers.tick(60000);
+  await settle();
+
+  assert.equal(fake.sessions[0].closed, true);
+  assert.equal(fake.connects.length, 1);
+  assert.deepEqual(states, [ConnectionState.CONNECTED]);
+});
@@ -0,0 +1,98 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo, Socket } from 'node:net';
+import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { InputMode, Locale, TranscriptionEntry } from '../types';
+import { LIVE_LANGUAGE_CODES } from '../constants';
+import { LiveSessionSettings, buildLiveParams } from '../services/liveParams';
+import { createStubUpstream } from '../server/stubUpstream';
+
+const API_KEY = 'test-key';
+const INPUT_MODES: InputMode[] = ['voice-activity', 'push-to-talk', 'text'];
+const LOCALES: Locale[] = ['en', 'pt-PT'];
+
+const settings = (inputMode: InputMode, locale: Locale): LiveSessionSettings => ({
+  modelName: 'models/test',
+  systemInstruction: 'You are a tutor.',
+  voiceName: 'Puck',
+  sections: [],
+  locale,
+  inputMode,
+  playbackRate: 1,
+  volume: 1,
+  tools: [{ functionDeclarations: [{ name: 'citeSource', description: 'Cites a section' }] }],
+});
+
+const transcript: TranscriptionEntry[] = [
+  { role: 'user', text: 'What is a prompt?', timestamp: new Date() },
+  { role: 'model', text: 'An instruction for the model.', timestamp: new Date() },
+];
+
+let stub: http.Server;
+let ai: GoogleGenAI;
+// The SDK opens the socket before converting the config and leaves it open when that throws
+const sockets = new Set<Socket>();
+
+before(async () => {
+  stub = createStubUpstream(API_KEY);
+  stub.on('connection', socket => sockets.add(socket));
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  ai = new GoogleGenAI({
+    apiKey: API_KEY,
+    httpOptions: { baseUrl: `http://127.0.0.1:${(stub.address() as AddressInfo).port}` },
+  });
+});
+
+after(() => {
+  for (const socket of sockets) socket.destroy();
+  return new Promise(resolve => stub.close(resolve));
+});
+
+// The SDK converts the config before opening the socket and throws on fields the Gemini API
+// does not support, so this fails the same way a real session would
+async function connectThroughSdk(params: ReturnType<typeof buildLiveParams>) {
+  let resolveSetup: (message: LiveServerMessage) => void;
+  const setup = new Promise<LiveServerMessage>(resolve => { resolveSetup = resolve; });
+  const session = await ai.live.connect({
+    ...params,
+    callbacks: { onmessage: message => resolveSetup(message) },
+  });
+  const reply = await setup;
+  session.close();
+  return reply;
+}
+
+for (const inputMode of INPUT_MODES) {
+  for (const locale of LOCALES) {
+    test(`${inputMode} sessions in ${locale} are accepted by the SDK`, async () => {
+      const params = buildLiveParams(settings(inputMode, locale), null, []);
+      const { config } = params;
+
+      if (inputMode === 'text') {
+        assert.deepEqual(config.responseModalities, [Modality.TEXT]);
+        assert.equal(config.speechConfig, undefined);
+        assert.equal(config.inputAudioTranscription, undefined);
+      } else {
+        assert.deepEqual(config.responseModalities, [Modality.AUDIO]);
+        assert.equal(config.speechConfig?.languageCode, LIVE_LANGUAGE_CODES[locale]);
+        assert.deepEqual(config.inputAudioTranscription, {});
+        assert.deepEqual(config.outputAudioTranscription, {});
+      }
+      assert.equal(config.realtimeInputConfig?.automaticActivityDetection?.disabled, inputMode === 'push-to-talk' || undefined);
+
+      const reply = await connectThroughSdk(params);
+      assert.deepEqual(reply.setupComplete, {});
+    });
+  }
+}
+
+test('a fresh connection is told what was said so far; a resumed one is not', () => {
+  const live = settings('voice-activity', 'en');
+  const fresh = buildLiveParams(live, null, transcript).config.systemInstruction as string;
+  const resumed = buildLiveParams(live, 'handle-1', transcript).config.systemInstruction as string;
+
+  assert.ok(fresh.startsWith(live.systemInstruction));
+  assert.match(fresh, /What is a prompt\?/);
+  assert.equal(resumed, live.systemInstruction);
+});
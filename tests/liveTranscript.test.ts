@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LiveServerMessage } from '@google/genai';
+import { TranscriptionEntry } from '../types';
+import { createTranscriptAssembler } from '../services/liveTranscript';
+import { createLiveConnection } from '../services/liveConnection';
+import {
+  ScriptStep,
+  createFakeLiveClient,
+  inputTranscription,
+  outputTranscription,
+  settle,
+  turnComplete,
+} from './fakes/fakeLiveClient';
+
+const summary = (entries: TranscriptionEntry[]) => entries.map(e => ({ role: e.role, text: e.text }));
+
+/** Replays one scripted connection and collects the transcript as App builds it. */
+async function replay(steps: ScriptStep[]) {
+  const { client } = createFakeLiveClient([{ steps }]);
+  const turn = createTranscriptAssembler();
+  const transcript: TranscriptionEntry[] = [];
+  const liveTurns: string[] = [];
+  const connection = createLiveConnection({
+    createClient: async () => client,
+    buildParams: () => ({ model: 'test-model', config: {} }),
+    onStateChange: () => {},
+    onSession: () => {},
+    onMessage: (message: LiveServerMessage) => {
+      const { changed, committed } = turn.ingest(message.serverContent);
+      if (committed) transcript.push(...committed);
+      else if (changed) liveTurns.push(`${turn.live().user}|${turn.live().model}`);
+    },
+    onDrop: () => {},
+  });
+  await connection.start();
+  await settle();
+  connection.stop();
+  return { transcript, liveTurns, turn };
+}
+
+test('streamed transcriptions become one user and one model entry per turn', async () => {
+  const { transcript, liveTurns } = await replay([
+    { message: inputTranscription('What are ') },
+    { message: inputTranscription('the modules?') },
+    { message: outputTranscription('There are ') },
+    { message: outputTranscription('five modules.') },
+    { message: turnComplete() },
+    { message: inputTranscription('Thanks') },
+    { message: outputTranscription('You are welcome.') },
+    { message: turnComplete() },
+  ]);
+
+  assert.deepEqual(summary(transcript), [
+    { role: 'user', text: 'What are the modules?' },
+    { role: 'model', text: 'There are five modules.' },
+    { role: 'user', text: 'Thanks' },
+    { role: 'model', text: 'You are welcome.' },
+  ]);
+  assert.deepEqual(liveTurns.slice(0, 4), [
+    'What are |',
+    'What are the modules?|',
+    'What are the modules?|There are ',
+    'What are the modules?|There are five modules.',
+  ]);
+});
+
+test('a turn without any transcription adds nothing', async () => {
+  const { transcript } = await replay([{ message: turnComplete() }]);
+  assert.deepEqual(transcript, []);
+});
+
+test('an unfinished turn is kept for commit when the connection drops', async () => {
+  const { transcript, turn } = await replay([
+    { message: inputTranscription('Tell me about n8n') },
+    { message: outputTranscription('n8n is a workflow') },
+    { close: true },
+  ]);
+  assert.deepEqual(transcript, []);
+  assert.deepEqual(summary(turn.commit()), [
+    { role: 'user', text: 'Tell me about n8n' },
+    { role: 'model', text: 'n8n is a workflow' },
+  ]);
+  assert.deepEqual(turn.live(), { user: '', model: '' });
+});
+
+test('recording offsets mark where each side of the turn starts', () => {
+  const turn = createTranscriptAssembler();
+  turn.ingest(inputTranscription('Hello').serverContent, 1.5);
+  turn.ingest(inputTranscription(' there').serverContent, 2);
+  turn.markModelAudio(3);
+  turn.markModelAudio(3.5);
+  turn.ingest(outputTranscription('Hi').serverContent, 4);
+
+  const entries = turn.ingest(turnComplete().serverContent).committed!;
+  assert.deepEqual(entries.map(e => e.audioOffset), [1.5, 3]);
+});
+
+test('citations go to the next spoken answer, once per section', () => {
+  const turn = createTranscriptAssembler();
+  turn.addCitations([{ sectionId: 'module-1' }]);
+  // A tool-only turn: nothing was said, so the citations wait
+  assert.deepEqual(turn.commit(), []);
+  turn.addCitations([{ sectionId: 'module-1', quote: 'again' }, { sectionId: 'objectives' }]);
+  turn.ingest(outputTranscription('Module 1 covers prompts.').serverContent);
+
+  const [answer] = turn.commit();
+  assert.deepEqual(answer.citations, [{ sectionId: 'module-1' }, { sectionId: 'objectives' }]);
+  turn.ingest(outputTranscription('Anything else?').serverContent);
+  assert.equal(turn.commit()[0].citations, undefined);
+});
+
+test('text sessions take the reply from the model turn, skipping thoughts', () => {
+  const turn = createTranscriptAssembler({ textReplies: true });
+  const reply = (parts: object[]) => ({ modelTurn: { parts } }) as LiveServerMessage['serverContent'];
+  turn.ingest(reply([{ text: 'Planning the answer', thought: true }]));
+  turn.ingest(reply([{ text: 'Module 3 ' }]));
+  turn.ingest(reply([{ text: 'covers MagicSchool.ai.' }]));
+  // Audio transcriptions are not expected here and are ignored
+  turn.ingest(outputTranscription('ignored').serverContent);
+
+  const entries = turn.ingest(turnComplete().serverContent).committed!;
+  assert.deepEqual(summary(entries), [{ role: 'model', text: 'Module 3 covers MagicSchool.ai.' }]);
+});
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifySessionError } from '../services/sessionErrors';
+
+const domError = (name: string) => new DOMException('failed', name);
+
+test('a blocked microphone is reported as a permission problem', () => {
+  assert.equal(classifySessionError(domError('NotAllowedError')), 'mic-denied');
+  assert.equal(classifySessionError(domError('SecurityError')), 'mic-denied');
+});
+
+test('a missing or busy microphone is reported as unavailable', () => {
+  assert.equal(classifySessionError(domError('NotFoundError')), 'mic-unavailable');
+  assert.equal(classifySessionError(domError('NotReadableError')), 'mic-unavailable');
+});
+
+test('anything else is an API failure', () => {
+  assert.equal(classifySessionError(new Error('Token server responded with 500')), 'api');
+  assert.equal(classifySessionError('socket closed'), 'api');
+  assert.equal(classifySessionError(undefined), 'api');
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SHORTCUTS, matchShortcut } from '../services/shortcuts';
+
+const key = (code: string, modifiers: Partial<Record<'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey', boolean>> = {}) => ({
+  code,
+  altKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+test('Alt plus the physical key triggers the action', () => {
+  assert.equal(matchShortcut(key('KeyM', { altKey: true })), 'toggle-mute');
+  assert.equal(matchShortcut(key('KeyS', { altKey: true })), 'toggle-session');
+});
+
+test('plain keys and other modifier combinations are left alone', () => {
+  assert.equal(matchShortcut(key('KeyM')), null);
+  assert.equal(matchShortcut(key('KeyM', { altKey: true, ctrlKey: true })), null);
+  assert.equal(matchShortcut(key('KeyM', { altKey: true, shiftKey: true })), null);
+  assert.equal(matchShortcut(key('KeyZ', { altKey: true })), null);
+});
+
+test('every shortcut has its own key', () => {
+  assert.equal(new Set(SHORTCUTS.map(s => s.code)).size, SHORTCUTS.length);
+});
@@ -0,0 +1,126 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import { createStubUpstream } from '../server/stubUpstream';
+import { PROXY_PATH, TOKEN_PATH, TokenServerOptions, createTokenServer } from '../server/tokenServer';
+import { DEV_ORIGIN } from '../server/origins';
+
+const API_KEY = 'test-key';
+const LIVE_METHOD = '/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent';
+
+let upstreamUrl: string;
+const servers: http.Server[] = [];
+
+async function listen(server: http.Server) {
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function startTokenServer(options: Partial<TokenServerOptions> = {}) {
+  return listen(createTokenServer({ apiKey: API_KEY, upstreamBaseUrl: upstreamUrl, ...options }));
+}
+
+function requestToken(baseUrl: string, origin: string | null, method = 'POST') {
+  return fetch(baseUrl + TOKEN_PATH, { method, headers: origin ? { Origin: origin } : {} });
+}
+
+before(async () => {
+  upstreamUrl = await listen(createStubUpstream(API_KEY));
+});
+
+after(() => {
+  for (const server of servers) server.closeAllConnections();
+  return Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+});
+
+test('mints an ephemeral token through the upstream for the dev origin', async () => {
+  const baseUrl = await startTokenServer();
+  const res = await requestToken(baseUrl, DEV_ORIGIN);
+
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get('access-control-allow-origin'), DEV_ORIGIN);
+  const body = await res.json();
+  assert.equal(body.mode, 'token');
+  assert.match(body.token, /^auth_tokens\/stub-\d+$/);
+});
+
+test('refuses other origins and requests without one unless they are configured', async () => {
+  const baseUrl = await startTokenServer();
+  const foreign = await requestToken(baseUrl, 'https://evil.example');
+  assert.equal(foreign.status, 403);
+  assert.equal(foreign.headers.get('access-control-allow-origin'), null);
+  assert.equal((await requestToken(baseUrl, null)).status, 403);
+
+  const configured = await startTokenServer({ allowedOrigins: ['https://tutor.example'] });
+  assert.equal((await requestToken(configured, 'https://tutor.example')).status, 200);
+  assert.equal((await requestToken(configured, DEV_ORIGIN)).status, 403);
+});
+
+test('a rebound domain with matching Origin and Host is refused', async () => {
+  const baseUrl = await startTokenServer({ proxy: true });
+  const { port } = new URL(baseUrl);
+  const rebound = `evil.example:${port}`;
+  const status = await new Promise<number | undefined>((resolve, reject) => {
+    const req = http.request(baseUrl + TOKEN_PATH, {
+      method: 'POST',
+      headers: { Origin: `http://${rebound}`, Host: rebound },
+    }, res => {
+      res.resume();
+      resolve(res.statusCode);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+  assert.equal(status, 403);
+
+  const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}${PROXY_PATH}${LIVE_METHOD}`, {
+    origin: `http://${rebound}`,
+    headers: { Host: rebound },
+  });
+  const upgrade = await new Promise<number | undefined>(resolve => {
+    socket.on('unexpected-response', (_req, res) => resolve(res.statusCode));
+    socket.on('error', () => resolve(undefined));
+  });
+  assert.equal(upgrade, 403);
+});
+
+test('only POST mints a token', async () => {
+  const baseUrl = await startTokenServer();
+  const res = await requestToken(baseUrl, DEV_ORIGIN, 'GET');
+  assert.equal(res.status, 405);
+});
+
+test('a failing upstream is reported as 502', async t => {
+  t.mock.method(console, 'error', () => {});
+  const baseUrl = await startTokenServer({ apiKey: 'wrong-key' });
+  const res = await requestToken(baseUrl, DEV_ORIGIN);
+  assert.equal(res.status, 502);
+});
+
+test('proxy mode relays the Live WebSocket to the upstream', async () => {
+  const baseUrl = await startTokenServer({ proxy: true });
+  const res = await requestToken(baseUrl, DEV_ORIGIN);
+  assert.deepEqual(await res.json(), { mode: 'proxy', proxyPath: PROXY_PATH });
+
+  const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}${PROXY_PATH}${LIVE_METHOD}`, { origin: DEV_ORIGIN });
+  const reply = await new Promise<unknown>((resolve, reject) => {
+    socket.on('open', () => socket.send(JSON.stringify({ setup: { model: 'models/test' } })));
+    socket.on('message', data => resolve(JSON.parse(data.toString())));
+    socket.on('error', reject);
+  });
+  socket.close();
+  assert.deepEqual(reply, { setupComplete: {} });
+});
+
+test('the proxy refuses WebSockets from other origins', async () => {
+  const baseUrl = await startTokenServer({ proxy: true });
+  const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}${PROXY_PATH}${LIVE_METHOD}`, { origin: 'https://evil.example' });
+  const status = await new Promise<number | undefined>(resolve => {
+    socket.on('unexpected-response', (_req, res) => resolve(res.statusCode));
+    socket.on('error', () => resolve(undefined));
+  });
+  assert.equal(status, 403);
+});
@@ -3,11 +3,225 @@ export interface TranscriptionEntry {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  // Seconds into the session's audio recording, when one was made
+  audioOffset?: number;
+  // Document sections the model cited for this answer
+  citations?: Citation[];
+  // How a user message was sent; spoken turns have no source
+  source?: MessageSource;
+}
+
+export type MessageSource = 'typed' | 'quick-question';
+
+export interface Citation {
+  sectionId: string;
+  quote?: string;
 }
 
 export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
+
+export interface EvaluationItem {
+  label: string;
+  weight: number;
+}
+
+export interface CourseHighlights {
+  title: string;
+  duration: string;
+  tools: string[];
+  evaluation: EvaluationItem[];
+  modules: string[];
+}
+
+// Why an uploaded course document could not be read
+export type DocumentErrorCode = 'unsupported-type' | 'no-text';
+
+export interface CourseDocument {
+  fileName: string;
+  text: string;
+  highlights: CourseHighlights;
+}
+
+// Titles the splitter made up rather than took from the document; the UI words them itself
+export type GeneratedSectionTitle = { kind: 'overview' } | { kind: 'module'; number: string; name: string };
+
+// An addressable part of the course document that answers can cite
+export interface CourseSection {
+  id: string;
+  // As given to the model
+  title: string;
+  text: string;
+  generatedTitle?: GeneratedSectionTitle;
+  // Set on the parts of a long section with a generated title
+  part?: number;
+}
+
+export interface QuickQuestion {
+  text: string;
+  icon: string;
+}
+
+export type Locale = 'pt-PT' | 'en';
+
+export type LocalizedQuickQuestions = Record<Locale, QuickQuestion[]>;
+
+export interface CourseConfig {
+  id: string;
+  context: string;
+  systemInstruction: string;
+  quickQuestions: LocalizedQuickQuestions;
+  voiceName: string;
+  highlights: CourseHighlights;
+  sections: CourseSection[];
+  // Present for courses added from an uploaded document
+  document?: CourseDocument;
+}
+
+export interface TutorSession {
+  id: string;
+  courseId: string;
+  courseTitle: string;
+  startedAt: Date;
+  endedAt: Date;
+  entries: TranscriptionEntry[];
+  quiz?: QuizResult;
+  plan?: SessionPlan;
+}
+
+export interface SessionSearchResult {
+  session: TutorSession;
+  snippet: string | null;
+}
+
+export type TranscriptExportFormat = 'markdown' | 'pdf' | 'json' | 'srt' | 'vtt';
+
+export interface TranscriptExportMetadata {
+  courseTitle: string;
+  sessionId?: string;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+export interface SessionRecording {
+  sessionId: string;
+  sampleRate: number;
+  pcm: Int16Array;
+}
+
+// 'text' needs no microphone: the trainee types and the tutor replies in text
+export type InputMode = 'voice-activity' | 'push-to-talk' | 'text';
+
+// Why a session could not start or ended on its own
+export type SessionErrorKind = 'mic-denied' | 'mic-unavailable' | 'api' | 'connection-lost';
+
+// What the trainee is showing the tutor
+export type VideoSource = 'screen' | 'camera';
+
+export type SessionMode = 'tutor' | 'quiz' | 'planner';
+
+// Per-browser preferences from the settings panel, applied when a session connects
+export interface UserSettings {
+  // Empty means the system default device
+  inputDeviceId: string;
+  outputDeviceId: string;
+  // Empty means the course's own voice
+  voiceName: string;
+  playbackRate: number;
+  volume: number;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  modelName: string;
+  // Overlay the tutor's speech as live captions
+  captions: boolean;
+}
+
+// Who is talking right now, as shown next to the audio visualizer
+export type SpeakingState = 'listening' | 'user-speaking' | 'model-speaking' | 'interrupted';
+
+export interface QuizAnswer {
+  module: string;
+  question: string;
+  answer: string;
+  score: number;
+  feedback: string;
+  timestamp: Date;
+}
+
+export interface QuizResult {
+  answers: QuizAnswer[];
+  summary: string | null;
+}
+
+// The microproject: a 2-hour session plan built with the tutor in planner mode
+export interface SessionPlanActivity {
+  id: string;
+  title: string;
+  minutes: number;
+  description: string;
+  aiTools: string[];
+}
+
+export interface SessionPlan {
+  title: string;
+  subject: string;
+  gradeLevel: string;
+  goals: string[];
+  activities: SessionPlanActivity[];
+  assessment: string;
+}
+
+export interface ModuleScore {
+  module: string;
+  answered: number;
+  averageScore: number | null;
+}
+
+// --- Instructor analytics (computed locally from stored sessions) ---
+export type QuestionStatus = 'answered' | 'unanswered' | 'low-confidence';
+
+export interface QuestionInsight {
+  // Position of the session in the analysed set; session IDs are not exposed
+  sessionNumber: number;
+  askedAt: Date;
+  module: string | null;
+  question: string;
+  status: QuestionStatus;
+  source: MessageSource | 'voice';
+}
+
+export interface ModuleTopicStats {
+  module: string;
+  questions: number;
+  averageQuizScore: number | null;
+}
+
+export interface QuickQuestionStats {
+  text: string;
+  clicks: number;
+  // Sessions in which it was clicked at least once
+  sessions: number;
+}
+
+export interface CourseAnalytics {
+  sessionCount: number;
+  totalMinutes: number;
+  averageMinutes: number;
+  medianMinutes: number;
+  modules: ModuleTopicStats[];
+  questions: QuestionInsight[];
+  quickQuestions: QuickQuestionStats[];
+}
+
+// Returned by the token server's /api/live-token endpoint
+export interface LiveTokenResponse {
+  mode: 'token' | 'proxy';
+  token?: string;
+  expireTime?: string;
+  proxyPath?: string;
+}
@@ -0,0 +1,11 @@
+export function stripDiacritics(text: string) {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export function slugify(value: string) {
+  return stripDiacritics(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48) || 'course';
+}
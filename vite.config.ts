@@ -4,16 +4,18 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API key stays in the token server (server/index.ts); the client only gets short-lived tokens
+    const tokenServer = `http://127.0.0.1:${env.TOKEN_SERVER_PORT || 8787}`;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': tokenServer,
+          '/live-proxy': { target: tokenServer, ws: true },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),